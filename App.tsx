@@ -13,12 +13,21 @@ import QuizChallengeScreen from './src/screens/QuizChallengeScreen';
 import TestAlarmScreen from './src/screens/TestAlarmScreen';
 import AnalyticsScreen from './src/screens/AnalyticsScreen';
 import AndroidSettingsScreen from './src/screens/AndroidSettingsScreen';
+import BackupScreen from './src/screens/BackupScreen';
+import QuizPacksScreen from './src/screens/QuizPacksScreen';
 import QRCodeSetupScreen from './src/screens/QRCodeSetupScreen';
 import QRCodeChallengeScreen from './src/screens/QRCodeChallengeScreen';
-import { Alarm } from './src/types';
+import QRLibraryScreen from './src/screens/QRLibraryScreen';
+import QRCodePrintScreen from './src/screens/QRCodePrintScreen';
+import { Alarm, ScanCodeKind } from './src/types';
 import { initializeApp } from './src/utils/initializeApp';
-import { manualCheckForAlarms } from './src/services/alarmService';
+import { catchUpMissedAlarms, handleAlarmFired } from './src/services/alarmService';
+import { dispatchRingingAlarm, resumeRingingSession } from './src/services/challengeRegistry';
+import { getUnfinishedRingingSession } from './src/services/ringingSessionService';
 import CaptchaChallengeScreen from './src/screens/CaptchaChallengeScreen';
+import MemoryChallengeScreen from './src/screens/MemoryChallengeScreen';
+import TypingChallengeScreen from './src/screens/TypingChallengeScreen';
+import TypingPassagesScreen from './src/screens/TypingPassagesScreen';
 
 // Configure notifications to make them appear even when app is in foreground
 Notifications.setNotificationHandler({
@@ -33,16 +42,24 @@ Notifications.setNotificationHandler({
 // Define the stack navigator param list
 export type RootStackParamList = {
   Home: undefined;
-  CreateAlarm: undefined;
+  CreateAlarm: { alarmId?: string } | undefined;
   AlarmRinging: { alarm: Alarm };
-  FindButtonChallenge: { alarm: Alarm };
-  QuizChallenge: { alarm: Alarm };
-  CaptchaChallenge: { alarm: Alarm };
-  QRCodeSetup: { alarmId?: string };
-  QRCodeChallenge: { alarm: Alarm };
+  // Challenge screens take the step of a chained challenge, starting at 0
+  FindButtonChallenge: { alarm: Alarm; step?: number };
+  QuizChallenge: { alarm: Alarm; step?: number };
+  CaptchaChallenge: { alarm: Alarm; step?: number };
+  MemoryChallenge: { alarm: Alarm; step?: number };
+  TypingChallenge: { alarm: Alarm; step?: number };
+  QRCodeSetup: { alarmId?: string; kind?: ScanCodeKind; activate?: boolean };
+  QRCodeChallenge: { alarm: Alarm; step?: number };
   TestAlarm: undefined;
   Analytics: undefined;
   AndroidSettings: undefined;
+  Backup: undefined;
+  QuizPacks: undefined;
+  TypingPassages: undefined;
+  QRLibrary: undefined;
+  QRCodePrint: { qrCodeId: string };
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -67,9 +84,10 @@ export default function App() {
   const handleAppStateChange = (nextAppState: AppStateStatus) => {
     if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
       console.log('App has come to the foreground!');
-      // Check for alarms when app comes to foreground
+      // Catch up on alarms missed while the app was in the background
+      // Snoozed alarms re-fire from their own timers once the app is running again
       setTimeout(() => {
-        manualCheckForAlarms();
+        catchUpMissedAlarms();
       }, 1000);
     }
 
@@ -86,7 +104,11 @@ export default function App() {
 
     if (data && data.alarm) {
       const { alarm } = data as { alarm: Alarm };
-      navigationRef.current.navigate('AlarmRinging', { alarm });
+
+      // Record the occurrence as handled - one-time alarms are turned off, repeating ones rearmed
+      handleAlarmFired(alarm);
+
+      dispatchRingingAlarm(navigationRef.current, alarm);
     }
   };
 
@@ -169,6 +191,12 @@ export default function App() {
       if (navigationRef.current) {
         // Initialize with notification handling
         notificationListenerRef.current = await initializeApp(navigationRef.current);
+
+        // Go straight back into an alarm that was still ringing when the app was killed
+        const session = await getUnfinishedRingingSession();
+        if (session) {
+          resumeRingingSession(navigationRef.current, session);
+        }
       }
     };
 
@@ -245,6 +273,26 @@ export default function App() {
               presentation: 'modal', // Make it full screen
             }}
           />
+          <Stack.Screen
+            name="MemoryChallenge"
+            component={MemoryChallengeScreen}
+            options={{
+              gestureEnabled: false,
+              cardStyle: { backgroundColor: '#121212' },
+              presentation: 'modal',
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen
+            name="TypingChallenge"
+            component={TypingChallengeScreen}
+            options={{
+              gestureEnabled: false,
+              cardStyle: { backgroundColor: '#121212' },
+              presentation: 'modal',
+              headerShown: false,
+            }}
+          />
           <Stack.Screen 
             name="QRCodeSetup" 
             component={QRCodeSetupScreen}
@@ -276,6 +324,41 @@ export default function App() {
               headerShown: false,
             }}
           />
+          <Stack.Screen 
+            name="Backup" 
+            component={BackupScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen 
+            name="QuizPacks" 
+            component={QuizPacksScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen
+            name="TypingPassages"
+            component={TypingPassagesScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen 
+            name="QRLibrary" 
+            component={QRLibraryScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
+          <Stack.Screen 
+            name="QRCodePrint" 
+            component={QRCodePrintScreen}
+            options={{
+              headerShown: false,
+            }}
+          />
         </Stack.Navigator>
       </NavigationContainer>
     </SafeAreaView>
@@ -4,20 +4,25 @@ import {
   View,
   Text,
   TouchableOpacity,
-  Vibration,
-  Platform,
   Animated,
   Easing,
   BackHandler,
-  AppState
+  Alert
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
-import { Audio } from 'expo-av';
 import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
-import { AlarmMode } from '../types';
+import {
+  snoozeAlarm as snoozeAlarmService,
+  cancelSnooze,
+  dismissAlarmNotifications
+} from '../services/alarmService';
+import { getChallenge, getChallengeSteps, hasChallengeScreen, navigateToChallenge } from '../services/challengeRegistry';
+import { getRemainingSnoozes } from '../services/snoozeService';
+import { markChallengeStarted } from '../services/ringingSessionService';
+import { AlarmAudioService } from '../services/alarmAudioService';
 
 type AlarmRingingRouteProp = RouteProp<RootStackParamList, 'AlarmRinging'>;
 type AlarmRingingNavigationProp = StackNavigationProp<RootStackParamList, 'AlarmRinging'>;
@@ -27,10 +32,6 @@ const AlarmRingingScreen = () => {
   const navigation = useNavigation<AlarmRingingNavigationProp>();
   const { alarm } = route.params;
   
-  // Sound object for alarm
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
-  const [isSoundReady, setSoundReady] = useState(false);
-  
   // Animation values
   const pulseAnim = new Animated.Value(1);
   const slideAnim = new Animated.Value(0);
@@ -47,34 +48,50 @@ const AlarmRingingScreen = () => {
   };
   
   const [currentTime, setCurrentTime] = useState(getCurrentTime());
+  
+  // Snoozes left for this alarm
+  const [remainingSnoozes, setRemainingSnoozes] = useState<number | null>(null);
 
   // Start the challenge
   const startChallenge = () => {
-    // Stop sound and vibration temporarily
-    if (sound) {
-      sound.pauseAsync();
+    // Alarms without a challenge are dismissed right here
+    if (!hasChallengeScreen(alarm)) {
+      dismissAlarm();
+      return;
     }
-    Vibration.cancel();
     
-    // Navigate to the appropriate challenge screen
-    if (alarm.mode === AlarmMode.TINY_BUTTON) {
-      navigation.navigate('FindButtonChallenge', { alarm });
-    } else if (alarm.mode === AlarmMode.QUIZ) {
-      navigation.navigate('QuizChallenge', { alarm });
-    } else if (alarm.mode === AlarmMode.CAPTCHA) {
-      navigation.navigate('CaptchaChallenge', { alarm });
-    }
+    // Navigate to the appropriate challenge screen - the sound keeps playing until it is solved
+    markChallengeStarted(alarm.id);
+    navigateToChallenge(navigation, alarm);
+  };
+
+  // Dismiss an alarm that has no challenge
+  const dismissAlarm = () => {
+    AlarmAudioService.stop();
+    
+    cancelSnooze(alarm.id);
+    dismissAlarmNotifications(alarm);
+    
+    navigation.navigate('Home');
   };
 
   // Snooze the alarm
-  const snoozeAlarm = () => {
-    if (sound) {
-      sound.stopAsync();
+  const snoozeAlarm = async () => {
+    const snoozeState = await snoozeAlarmService(alarm);
+    
+    if (!snoozeState) {
+      // Snooze limit reached - the challenge has to be solved
+      setRemainingSnoozes(0);
+      Alert.alert(
+        'No Snoozes Left',
+        'You have used all your snoozes for this alarm. Complete the challenge to dismiss it.',
+        [{ text: 'OK', onPress: startChallenge }]
+      );
+      return;
     }
-    Vibration.cancel();
     
-    // In a real app, you would reschedule the alarm for X minutes later
-    // For now, we'll just navigate back
+    AlarmAudioService.stop();
+    
     navigation.navigate('Home');
   };
 
@@ -108,75 +125,6 @@ const AlarmRingingScreen = () => {
     }).start();
   };
 
-  // Load and play alarm sound with more robust error handling
-  const playAlarmSound = async () => {
-    try {
-      console.log("Loading alarm sound...");
-      
-      // Set audio mode first
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        staysActiveInBackground: true,
-        interruptionModeIOS: Audio.INTERRUPTION_MODE_IOS_DO_NOT_MIX,
-        playsInSilentModeIOS: true,
-        shouldDuckAndroid: true,
-        interruptionModeAndroid: Audio.INTERRUPTION_MODE_ANDROID_DO_NOT_MIX,
-        playThroughEarpieceAndroid: false,
-      });
-      
-      // Unload any existing sound
-      if (sound) {
-        await sound.unloadAsync();
-      }
-      
-      // Now create and play the sound
-      const { sound: newSound } = await Audio.Sound.createAsync(
-        require('../../assets/alarm-sound.mp3'),
-        { 
-          shouldPlay: true, 
-          isLooping: true, 
-          volume: 1.0,
-          // These are important for alarms to continue in background
-          progressUpdateIntervalMillis: 1000,
-          positionMillis: 0,
-        },
-        (status) => {
-          console.log("Sound status update:", status);
-          if (status.isLoaded && !status.isPlaying && isSoundReady) {
-            // Try to play again if it stopped unexpectedly
-            newSound.playAsync();
-          }
-        }
-      );
-      
-      setSound(newSound);
-      setSoundReady(true);
-      
-      // Make sure it's playing
-      await newSound.playAsync();
-      console.log("Alarm sound is now playing");
-    } catch (error) {
-      console.error('Error playing alarm sound:', error);
-      // Fallback - try native device vibration as alert
-      startVibration();
-    }
-  };
-
-  // Start vibration pattern
-  const startVibration = () => {
-    if (Platform.OS === 'android') {
-      // Android can use complex patterns (wait, vibrate, wait, vibrate, etc.)
-      Vibration.vibrate([500, 500, 500, 500], true);
-    } else {
-      // iOS needs a simpler approach
-      const vibrateInterval = setInterval(() => {
-        Vibration.vibrate();
-      }, 1000);
-      
-      return () => clearInterval(vibrateInterval);
-    }
-  };
-
   // Prevent accidental back navigation
   useFocusEffect(
     React.useCallback(() => {
@@ -199,72 +147,32 @@ const AlarmRingingScreen = () => {
   useEffect(() => {
     console.log("AlarmRingingScreen mounted - initializing alarm");
     
-    // Start vibration immediately
-    startVibration();
-    
-    // Play sound
-    playAlarmSound();
+    // Start ringing - keeps going if the alarm is already ringing
+    AlarmAudioService.start(alarm);
     
     // Run animations
     runAnimations();
     
+    // Load how many snoozes are left
+    getRemainingSnoozes(alarm).then(setRemainingSnoozes);
+    
     // Update current time
     const timeInterval = setInterval(() => {
       setCurrentTime(getCurrentTime());
     }, 1000);
     
-    // Listen for app state changes to restart sound if app goes to background and comes back
-    const appStateSubscription = AppState.addEventListener('change', nextAppState => {
-      if (nextAppState === 'active' && isSoundReady) {
-        // App has come to the foreground
-        playAlarmSound();
-      }
-    });
-    
     // Cleanup function
     return () => {
       console.log("AlarmRingingScreen unmounting - cleaning up");
-      if (sound) {
-        sound.unloadAsync();
-      }
-      Vibration.cancel();
       clearInterval(timeInterval);
-      appStateSubscription.remove();
     };
   }, []);
 
-  // Extra effect to ensure sound continues playing
-  useEffect(() => {
-    if (isSoundReady && sound) {
-      // Check every 5 seconds if sound is still playing
-      const soundCheckInterval = setInterval(async () => {
-        try {
-          const status = await sound.getStatusAsync();
-          if (status.isLoaded && !status.isPlaying) {
-            console.log("Sound stopped - restarting");
-            await sound.playAsync();
-          }
-        } catch (error) {
-          console.error("Error checking sound status:", error);
-        }
-      }, 5000);
-      
-      return () => clearInterval(soundCheckInterval);
-    }
-  }, [sound, isSoundReady]);
-
-  // Get the challenge name based on mode
+  // Get the challenge name based on mode - chained challenges say how many steps follow
   const getChallengeName = () => {
-    switch (alarm?.mode) {
-      case AlarmMode.TINY_BUTTON:
-        return 'Find Button';
-      case AlarmMode.QUIZ:
-        return 'Solve Quiz';
-      case AlarmMode.CAPTCHA:
-        return 'Solve Captcha';
-      default:
-        return 'Challenge';
-    }
+    const steps = getChallengeSteps(alarm);
+    const name = getChallenge(steps[0]).name;
+    return steps.length > 1 ? `${name} (1 of ${steps.length})` : name;
   };
 
   return (
@@ -299,10 +207,13 @@ const AlarmRingingScreen = () => {
         ]}
       >
         <TouchableOpacity 
-          style={styles.button} 
+          style={[styles.button, remainingSnoozes === 0 && styles.disabledButton]} 
           onPress={snoozeAlarm}
         >
           <Text style={styles.buttonText}>Snooze</Text>
+          {remainingSnoozes !== null && (
+            <Text style={styles.snoozeCountText}>{remainingSnoozes} left</Text>
+          )}
         </TouchableOpacity>
         
         <TouchableOpacity 
@@ -360,6 +271,14 @@ const styles = StyleSheet.create({
   primaryButton: {
     backgroundColor: '#2E7D87',
   },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  snoozeCountText: {
+    fontSize: 12,
+    color: '#aaa',
+    marginTop: 2,
+  },
   buttonText: {
     fontSize: 16,
     color: '#fff',
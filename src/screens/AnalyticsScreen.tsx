@@ -1,27 +1,238 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
+import {
+  AlarmOccurrence,
+  AnalyticsSummary,
+  ModeAttemptStats,
+  WakeHistoryDay,
+  getAlarmEvents,
+  getAlarmOccurrences,
+  getDayKey,
+  getDismissTimeByDay,
+  getModeAttemptStats,
+  getWakeHistory,
+  retireLegacyStatistics,
+  summarizeAlarmEvents
+} from '../services/analyticsService';
+import { formatAlarmTime } from '../services/alarmSchema';
+import { getChallenge } from '../services/challengeRegistry';
+import { HistoryExportFormat, exportAlarmHistory } from '../services/historyExport';
 
-// Placeholder analytics data structure
-const getAnalyticsData = async () => {
-  // TODO: Replace with real data fetching logic
-  return {
-    alarmsSet: 12,
-    alarmsDismissed: 9,
-    averageWakeTime: '7:15 AM',
-    mostUsedMode: 'Quiz',
-    streak: 4,
-  };
+// Day ranges offered for the wake-up chart
+const HISTORY_RANGES = [30, 90];
+
+// Days shown in the calendar heatmap
+const HEATMAP_DAYS = 90;
+
+const CHART_HEIGHT = 160;
+
+// Heatmap colours by average time to dismiss - faster is greener
+const HEATMAP_BUCKETS = [
+  { maxSeconds: 30, color: '#2E7D87', label: '< 30s' },
+  { maxSeconds: 60, color: '#5FA8B0', label: '< 1m' },
+  { maxSeconds: 120, color: '#F2C14E', label: '< 2m' },
+  { maxSeconds: 300, color: '#F28C4E', label: '< 5m' },
+  { maxSeconds: Infinity, color: '#E0524E', label: '5m+' },
+];
+const HEATMAP_EMPTY_COLOR = '#e9ebf0';
+
+// Format seconds as a short duration, e.g. "45s" or "3m 20s"
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return remainder > 0 ? `${minutes}m ${remainder}s` : `${minutes}m`;
+};
+
+// Format minutes since midnight as a display time
+const formatMinuteOfDay = (minute: number) => formatAlarmTime(Math.floor(minute / 60) % 24, minute % 60);
+
+// Format a day key as a short date, e.g. "May 4"
+const formatDayKey = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const getHeatmapColor = (seconds: number | undefined) => {
+  if (seconds === undefined) return HEATMAP_EMPTY_COLOR;
+  return HEATMAP_BUCKETS.find(bucket => seconds < bucket.maxSeconds)!.color;
+};
+
+// Actual wake-up time against scheduled time, one column per day
+const WakeTimeChart = ({ history }: { history: WakeHistoryDay[] }) => {
+  const minutes = history.flatMap(day => [day.scheduledMinute, day.wakeMinute])
+    .filter((minute): minute is number => minute !== null);
+
+  if (minutes.length === 0) {
+    return <Text style={styles.chartEmptyText}>No wake-ups in this period yet.</Text>;
+  }
+
+  // Round the axis out to the nearest half hour around the data
+  const axisStart = Math.floor((Math.min(...minutes) - 15) / 30) * 30;
+  const axisEnd = Math.ceil((Math.max(...minutes) + 15) / 30) * 30;
+  const getOffset = (minute: number) => ((minute - axisStart) / (axisEnd - axisStart)) * CHART_HEIGHT;
+
+  return (
+    <View>
+      <View style={styles.chartRow}>
+        <View style={styles.chartAxis}>
+          <Text style={styles.axisLabel}>{formatMinuteOfDay(Math.max(axisStart, 0))}</Text>
+          <Text style={styles.axisLabel}>{formatMinuteOfDay(Math.min(axisEnd, 24 * 60 - 1))}</Text>
+        </View>
+        <View style={styles.chartArea}>
+          {history.map(day => (
+            <View key={day.dayKey} style={styles.chartColumn}>
+              {day.scheduledMinute !== null && day.wakeMinute !== null && (
+                <View
+                  style={[
+                    styles.chartLateness,
+                    {
+                      top: getOffset(Math.min(day.scheduledMinute, day.wakeMinute)),
+                      height: Math.abs(getOffset(day.wakeMinute) - getOffset(day.scheduledMinute)),
+                    }
+                  ]}
+                />
+              )}
+              {day.scheduledMinute !== null && (
+                <View style={[styles.chartDot, styles.scheduledDot, { top: getOffset(day.scheduledMinute) - 3 }]} />
+              )}
+              {day.wakeMinute !== null && (
+                <View style={[styles.chartDot, styles.wakeDot, { top: getOffset(day.wakeMinute) - 3 }]} />
+              )}
+            </View>
+          ))}
+        </View>
+      </View>
+      <View style={styles.chartFooter}>
+        <Text style={styles.axisLabel}>{formatDayKey(history[0].dayKey)}</Text>
+        <Text style={styles.axisLabel}>Today</Text>
+      </View>
+      <View style={styles.legendRow}>
+        <View style={[styles.legendSwatch, styles.scheduledDot]} />
+        <Text style={styles.legendText}>Scheduled</Text>
+        <View style={[styles.legendSwatch, styles.wakeDot]} />
+        <Text style={styles.legendText}>Woke up</Text>
+      </View>
+    </View>
+  );
+};
+
+// Calendar of the last few months, coloured by how long the alarm took to dismiss
+const DismissHeatmap = ({ dismissTimes }: { dismissTimes: Record<string, number> }) => {
+  // Start on a Sunday so every column is one week
+  const start = new Date();
+  start.setDate(start.getDate() - (HEATMAP_DAYS - 1));
+  start.setDate(start.getDate() - start.getDay());
+
+  const today = getDayKey(Date.now());
+  const weeks: string[][] = [];
+  const date = new Date(start);
+
+  while (getDayKey(date.getTime()) <= today) {
+    if (date.getDay() === 0) {
+      weeks.push([]);
+    }
+    weeks[weeks.length - 1].push(getDayKey(date.getTime()));
+    date.setDate(date.getDate() + 1);
+  }
+
+  return (
+    <View>
+      <View style={styles.heatmapGrid}>
+        {weeks.map(week => (
+          <View key={week[0]} style={styles.heatmapWeek}>
+            {week.map(dayKey => (
+              <View
+                key={dayKey}
+                style={[styles.heatmapCell, { backgroundColor: getHeatmapColor(dismissTimes[dayKey]) }]}
+              />
+            ))}
+          </View>
+        ))}
+      </View>
+      <View style={styles.legendRow}>
+        {HEATMAP_BUCKETS.map(bucket => (
+          <View key={bucket.label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: bucket.color }]} />
+            <Text style={styles.legendText}>{bucket.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+// Average attempts needed per challenge mode
+const ModeBreakdown = ({ stats }: { stats: ModeAttemptStats[] }) => {
+  if (stats.length === 0) {
+    return <Text style={styles.chartEmptyText}>No dismissed alarms yet.</Text>;
+  }
+
+  const maxAttempts = Math.max(...stats.map(stat => stat.averageAttempts));
+
+  return (
+    <View>
+      {stats.map(stat => (
+        <View key={stat.mode} style={styles.modeRow}>
+          <View style={styles.modeHeader}>
+            <Feather name={getChallenge(stat.mode).icon} size={16} color="#2E7D87" />
+            <Text style={styles.modeName}>{getChallenge(stat.mode).name}</Text>
+            <Text style={styles.modeValue}>{stat.averageAttempts.toFixed(1)} attempts</Text>
+          </View>
+          <View style={styles.modeBarTrack}>
+            <View style={[styles.modeBar, { width: `${(stat.averageAttempts / maxAttempts) * 100}%` }]} />
+          </View>
+          <Text style={styles.modeCount}>{stat.alarms} {stat.alarms === 1 ? 'alarm' : 'alarms'}</Text>
+        </View>
+      ))}
+    </View>
+  );
 };
 
 const AnalyticsScreen = () => {
-  const [data, setData] = useState<any>(null);
+  const [data, setData] = useState<AnalyticsSummary | null>(null);
+  const [occurrences, setOccurrences] = useState<AlarmOccurrence[]>([]);
+  const [historyDays, setHistoryDays] = useState(HISTORY_RANGES[0]);
+  const [exportingFormat, setExportingFormat] = useState<HistoryExportFormat | null>(null);
 
   useEffect(() => {
-    getAnalyticsData().then(setData);
+    const loadAnalytics = async () => {
+      const events = await getAlarmEvents();
+      setOccurrences(getAlarmOccurrences(events));
+      setData(summarizeAlarmEvents(events));
+    };
+
+    // Tell the user once that the old daily totals are gone
+    const retireOldStatistics = async () => {
+      const dismissals = await retireLegacyStatistics();
+      if (dismissals > 0) {
+        Alert.alert(
+          'Statistics Updated',
+          `Analytics are now built from a detailed alarm history. Your ${dismissals} earlier QR code dismissals were only kept as daily totals and could not be carried over.`
+        );
+      }
+    };
+
+    loadAnalytics();
+    retireOldStatistics();
   }, []);
 
+  const handleExport = async (format: HistoryExportFormat) => {
+    if (exportingFormat) return;
+
+    setExportingFormat(format);
+    try {
+      await exportAlarmHistory(format);
+    } catch (error) {
+      console.error('Error exporting alarm history:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Could not export your alarm history.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   if (!data) {
     return (
       <SafeAreaView style={styles.container}>
@@ -31,34 +242,111 @@ const AnalyticsScreen = () => {
     );
   }
 
+  if (data.alarmsTriggered === 0) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.title}>Analytics</Text>
+        <View style={styles.emptyState}>
+          <Feather name="bar-chart-2" size={40} color="#ccc" />
+          <Text style={styles.emptyText}>Your stats will show up here once an alarm has rung.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <Text style={styles.title}>Analytics</Text>
-      <ScrollView contentContainerStyle={styles.statsContainer}>
-        <View style={styles.statCard}>
-          <Feather name="bell" size={28} color="#2E7D87" />
-          <Text style={styles.statLabel}>Alarms Set</Text>
-          <Text style={styles.statValue}>{data.alarmsSet}</Text>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={styles.statsContainer}>
+          <View style={styles.statCard}>
+            <Feather name="bell" size={28} color="#2E7D87" />
+            <Text style={styles.statLabel}>Alarms Triggered</Text>
+            <Text style={styles.statValue}>{data.alarmsTriggered}</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Feather name="check-circle" size={28} color="#2E7D87" />
+            <Text style={styles.statLabel}>Alarms Dismissed</Text>
+            <Text style={styles.statValue}>{data.alarmsDismissed}</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Feather name="watch" size={28} color="#2E7D87" />
+            <Text style={styles.statLabel}>Avg Time to Dismiss</Text>
+            <Text style={styles.statValue}>
+              {data.averageDismissSeconds !== null ? formatDuration(data.averageDismissSeconds) : '-'}
+            </Text>
+          </View>
+          <View style={styles.statCard}>
+            <Feather name="clock" size={28} color="#2E7D87" />
+            <Text style={styles.statLabel}>Avg Wake Time</Text>
+            <Text style={styles.statValue}>{data.averageWakeTime || '-'}</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Feather name="award" size={28} color="#2E7D87" />
+            <Text style={styles.statLabel}>No-Snooze Streak</Text>
+            <Text style={styles.statValue}>{data.noSnoozeStreak} days</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Feather name="activity" size={28} color="#2E7D87" />
+            <Text style={styles.statLabel}>Most Used Mode</Text>
+            <Text style={styles.statValue}>{data.mostUsedMode ? getChallenge(data.mostUsedMode).name : '-'}</Text>
+          </View>
         </View>
-        <View style={styles.statCard}>
-          <Feather name="check-circle" size={28} color="#2E7D87" />
-          <Text style={styles.statLabel}>Alarms Dismissed</Text>
-          <Text style={styles.statValue}>{data.alarmsDismissed}</Text>
+
+        {/* Wake-up time history */}
+        <View style={styles.historyCard}>
+          <View style={styles.historyHeader}>
+            <Text style={styles.historyTitle}>Wake-up Time</Text>
+            <View style={styles.rangeToggle}>
+              {HISTORY_RANGES.map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.rangeOption, historyDays === days && styles.selectedRangeOption]}
+                  onPress={() => setHistoryDays(days)}
+                >
+                  <Text style={[styles.rangeText, historyDays === days && styles.selectedRangeText]}>
+                    {days}d
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <WakeTimeChart history={getWakeHistory(occurrences, historyDays)} />
         </View>
-        <View style={styles.statCard}>
-          <Feather name="clock" size={28} color="#2E7D87" />
-          <Text style={styles.statLabel}>Avg Wake Time</Text>
-          <Text style={styles.statValue}>{data.averageWakeTime}</Text>
+
+        {/* Time to dismiss heatmap */}
+        <View style={styles.historyCard}>
+          <Text style={styles.historyTitle}>Time to Dismiss</Text>
+          <DismissHeatmap dismissTimes={getDismissTimeByDay(occurrences)} />
         </View>
-        <View style={styles.statCard}>
-          <Feather name="award" size={28} color="#2E7D87" />
-          <Text style={styles.statLabel}>Streak</Text>
-          <Text style={styles.statValue}>{data.streak} days</Text>
+
+        {/* Attempts per challenge mode */}
+        <View style={styles.historyCard}>
+          <Text style={styles.historyTitle}>Attempts by Mode</Text>
+          <ModeBreakdown stats={getModeAttemptStats(occurrences)} />
         </View>
-        <View style={styles.statCard}>
-          <Feather name="activity" size={28} color="#2E7D87" />
-          <Text style={styles.statLabel}>Most Used Mode</Text>
-          <Text style={styles.statValue}>{data.mostUsedMode}</Text>
+
+        {/* Export of the raw history */}
+        <View style={styles.historyCard}>
+          <Text style={styles.historyTitle}>Export History</Text>
+          <Text style={styles.exportText}>
+            One row per alarm with its scheduled, fired and dismissed times, snoozes and challenge attempts.
+          </Text>
+          <View style={styles.exportButtons}>
+            {(['csv', 'json'] as HistoryExportFormat[]).map(format => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.exportButton, exportingFormat !== null && styles.exportButtonDisabled]}
+                onPress={() => handleExport(format)}
+                disabled={exportingFormat !== null}
+              >
+                <Feather name="download" size={16} color="#fff" />
+                <Text style={styles.exportButtonText}>
+                  {exportingFormat === format ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -107,6 +395,202 @@ const styles = StyleSheet.create({
     color: '#2E7D87',
     marginTop: 2,
   },
+  emptyState: {
+    alignItems: 'center',
+    marginTop: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  historyCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 24,
+    shadowColor: '#000',
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  historyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 16,
+  },
+  rangeToggle: {
+    flexDirection: 'row',
+    marginBottom: 16,
+    backgroundColor: '#f6f7fb',
+    borderRadius: 12,
+  },
+  rangeOption: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+  },
+  selectedRangeOption: {
+    backgroundColor: '#2E7D87',
+  },
+  rangeText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  selectedRangeText: {
+    color: '#fff',
+  },
+  chartRow: {
+    flexDirection: 'row',
+    height: CHART_HEIGHT,
+  },
+  chartAxis: {
+    justifyContent: 'space-between',
+    marginRight: 8,
+  },
+  axisLabel: {
+    fontSize: 11,
+    color: '#888',
+  },
+  chartArea: {
+    flex: 1,
+    flexDirection: 'row',
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#e9ebf0',
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  chartLateness: {
+    position: 'absolute',
+    width: 2,
+    backgroundColor: '#cfe3e5',
+  },
+  chartDot: {
+    position: 'absolute',
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  scheduledDot: {
+    backgroundColor: '#bbb',
+  },
+  wakeDot: {
+    backgroundColor: '#2E7D87',
+  },
+  chartFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    marginLeft: 56,
+  },
+  chartEmptyText: {
+    fontSize: 14,
+    color: '#888',
+  },
+  legendRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#555',
+    marginRight: 12,
+  },
+  heatmapGrid: {
+    flexDirection: 'row',
+  },
+  heatmapWeek: {
+    marginRight: 3,
+  },
+  heatmapCell: {
+    width: 14,
+    height: 14,
+    borderRadius: 3,
+    marginBottom: 3,
+  },
+  modeRow: {
+    marginBottom: 14,
+  },
+  modeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  modeName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 8,
+  },
+  modeValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2E7D87',
+  },
+  modeBarTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#e9ebf0',
+    marginTop: 6,
+  },
+  modeBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#2E7D87',
+  },
+  modeCount: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  exportText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2E7D87',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
 });
 
 export default AnalyticsScreen;
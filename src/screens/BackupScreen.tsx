@@ -0,0 +1,459 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../../App';
+import {
+  AlarmBackup,
+  RestoreChanges,
+  RestorePreview,
+  exportBackup,
+  parseBackup,
+  previewRestore,
+  restoreBackup
+} from '../services/backupService';
+import { pickTextFile } from '../services/fileSharing';
+
+type BackupScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Backup'>;
+
+type BusyAction = 'export' | 'pick' | 'restore';
+
+// One section of the restore preview, listing added and replaced records
+const ChangeList = <T,>({
+  title,
+  changes,
+  describe,
+}: {
+  title: string;
+  changes: RestoreChanges<T>;
+  describe: (record: T) => string;
+}) => {
+  const total = changes.added.length + changes.replaced.length + changes.unchanged;
+  if (total === 0) return null;
+
+  return (
+    <View style={styles.changeSection}>
+      <Text style={styles.changeTitle}>{title}</Text>
+      {changes.added.map((record, index) => (
+        <View key={`added_${index}`} style={styles.changeRow}>
+          <Feather name="plus-circle" size={16} color="#4CAF50" />
+          <Text style={styles.changeText}>{describe(record)}</Text>
+          <Text style={[styles.changeTag, styles.addedTag]}>New</Text>
+        </View>
+      ))}
+      {changes.replaced.map((record, index) => (
+        <View key={`replaced_${index}`} style={styles.changeRow}>
+          <Feather name="refresh-cw" size={16} color="#F57C00" />
+          <Text style={styles.changeText}>{describe(record)}</Text>
+          <Text style={[styles.changeTag, styles.replacedTag]}>Replaces current</Text>
+        </View>
+      ))}
+      {changes.unchanged > 0 && (
+        <Text style={styles.unchangedText}>
+          {changes.unchanged} already up to date
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const BackupScreen = () => {
+  const navigation = useNavigation<BackupScreenNavigationProp>();
+  const [busyAction, setBusyAction] = useState<BusyAction | null>(null);
+  const [pendingBackup, setPendingBackup] = useState<AlarmBackup | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setBusyAction('export');
+    setStatusMessage(null);
+    try {
+      const backup = await exportBackup();
+      setStatusMessage(`Backed up ${backup.alarms.length} alarms and ${backup.qrCodes.length} QR codes.`);
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert('Backup Failed', error instanceof Error ? error.message : 'Could not create a backup.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  // Pick a backup file, validate it and show what restoring it would change
+  const handlePickBackup = async () => {
+    setBusyAction('pick');
+    setStatusMessage(null);
+    try {
+      const content = await pickTextFile(['application/json', 'text/plain']);
+      if (content === null) return;
+
+      const backup = parseBackup(content);
+      setPreview(await previewRestore(backup));
+      setPendingBackup(backup);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Cannot Restore', error instanceof Error ? error.message : 'Could not read this backup.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+
+    setBusyAction('restore');
+    try {
+      const result = await restoreBackup(pendingBackup);
+      setStatusMessage(
+        `Restored ${result.alarms.added.length + result.alarms.replaced.length} alarms. Active alarms have been rescheduled.`
+      );
+      setPendingBackup(null);
+      setPreview(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert('Restore Failed', error instanceof Error ? error.message : 'Could not restore this backup.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const cancelRestore = () => {
+    setPendingBackup(null);
+    setPreview(null);
+  };
+
+  const hasChanges = !!preview && (
+    preview.alarms.added.length + preview.alarms.replaced.length
+    + preview.qrCodes.added.length + preview.qrCodes.replaced.length
+    + preview.quizPacks.added.length + preview.quizPacks.replaced.length
+    + preview.typingPassages.added.length + preview.typingPassages.replaced.length
+    + preview.sounds.added.length + preview.sounds.replaced.length
+    + preview.settings.added.length + preview.settings.replaced.length
+    + preview.newEvents > 0
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Feather name="arrow-left" size={24} color="#2E7D87" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Backup & Restore</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {statusMessage && (
+          <View style={styles.statusBanner}>
+            <Feather name="check-circle" size={18} color="#2E7D87" />
+            <Text style={styles.statusText}>{statusMessage}</Text>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Create Backup</Text>
+          <Text style={styles.cardText}>
+            Saves your alarms, QR codes, quiz packs, typing passages, imported sounds, alarm history and settings
+            to a file you can move to a new phone. Sounds over 2 MB are left out.
+          </Text>
+          <TouchableOpacity
+            style={[styles.actionButton, busyAction !== null && styles.disabledButton]}
+            onPress={handleExport}
+            disabled={busyAction !== null}
+          >
+            {busyAction === 'export' ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Feather name="upload" size={18} color="#fff" />
+            )}
+            <Text style={styles.actionButtonText}>Save Backup File</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Restore Backup</Text>
+          <Text style={styles.cardText}>
+            Everything in the backup is added, or replaces what has the same ID. Nothing else is removed.
+          </Text>
+
+          {!preview && (
+            <TouchableOpacity
+              style={[styles.actionButton, busyAction !== null && styles.disabledButton]}
+              onPress={handlePickBackup}
+              disabled={busyAction !== null}
+            >
+              {busyAction === 'pick' ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Feather name="download" size={18} color="#fff" />
+              )}
+              <Text style={styles.actionButtonText}>Choose Backup File</Text>
+            </TouchableOpacity>
+          )}
+
+          {preview && pendingBackup && (
+            <View style={styles.previewContainer}>
+              {pendingBackup.createdAt > 0 && (
+                <Text style={styles.previewDate}>
+                  Backup from {new Date(pendingBackup.createdAt).toLocaleString()}
+                </Text>
+              )}
+
+              <ChangeList
+                title="Alarms"
+                changes={preview.alarms}
+                describe={alarm => `${alarm.time} · ${alarm.label}`}
+              />
+              <ChangeList
+                title="QR Codes"
+                changes={preview.qrCodes}
+                describe={qrCode => qrCode.name || qrCode.id}
+              />
+              <ChangeList
+                title="Quiz Packs"
+                changes={preview.quizPacks}
+                describe={pack => `${pack.name} · ${pack.questions.length} questions`}
+              />
+              <ChangeList
+                title="Typing Passages"
+                changes={preview.typingPassages}
+                describe={passage => passage.text}
+              />
+              <ChangeList
+                title="Sounds"
+                changes={preview.sounds}
+                describe={sound => sound.name}
+              />
+              <ChangeList
+                title="Settings"
+                changes={preview.settings}
+                describe={entry => `${entry.key}: ${entry.value}`}
+              />
+
+              {preview.brokenReferences.length > 0 && (
+                <View style={styles.changeSection}>
+                  <Text style={styles.changeTitle}>Missing From Backup</Text>
+                  {preview.brokenReferences.map((reference, index) => (
+                    <View key={`reference_${index}`} style={styles.changeRow}>
+                      <Feather name="alert-triangle" size={16} color="#F57C00" />
+                      <Text style={styles.changeText}>{reference}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {preview.newEvents > 0 && (
+                <Text style={styles.historyText}>
+                  {preview.newEvents} alarm history entries will be added.
+                </Text>
+              )}
+
+              {!hasChanges && (
+                <Text style={styles.historyText}>Everything in this backup is already on this device.</Text>
+              )}
+
+              <View style={styles.previewButtons}>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, busyAction !== null && styles.disabledButton]}
+                  onPress={cancelRestore}
+                  disabled={busyAction !== null}
+                >
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.restoreButton, (busyAction !== null || !hasChanges) && styles.disabledButton]}
+                  onPress={handleRestore}
+                  disabled={busyAction !== null || !hasChanges}
+                >
+                  {busyAction === 'restore' ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.restoreButtonText}>Restore</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fd',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e4f5f6',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2E7D87',
+    marginLeft: 8,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  actionButton: {
+    backgroundColor: '#2E7D87',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  previewContainer: {
+    marginTop: 16,
+  },
+  previewDate: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 8,
+  },
+  changeSection: {
+    marginTop: 8,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  changeTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 6,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  changeText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  changeTag: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  addedTag: {
+    color: '#4CAF50',
+  },
+  replacedTag: {
+    color: '#F57C00',
+  },
+  unchangedText: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 4,
+  },
+  historyText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 12,
+  },
+  previewButtons: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2E7D87',
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    color: '#2E7D87',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  restoreButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2E7D87',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
+
+export default BackupScreen;
@@ -13,77 +13,85 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
-import { Audio } from 'expo-av';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
-import * as Notifications from 'expo-notifications';
+import { cancelSnooze, dismissAlarmNotifications } from '../services/alarmService';
+import { recordChallengeAttempt } from '../services/ringingSessionService';
+import { AlarmAudioService } from '../services/alarmAudioService';
+import { getChallengeStepLabel, goToNextChallengeStep } from '../services/challengeRegistry';
+import {
+    Captcha,
+    generateCaptcha,
+    checkCaptchaAnswer,
+    getSpokenCaptcha,
+    DEFAULT_CAPTCHA_DIFFICULTY
+} from '../services/captchaGenerator';
+import Svg, { Rect, Circle, G, Path, Text as SvgText } from 'react-native-svg';
+import * as Speech from 'expo-speech';
 
 type CaptchaChallengeRouteProp = RouteProp<RootStackParamList, 'CaptchaChallenge'>;
 type CaptchaChallengeNavigationProp = StackNavigationProp<RootStackParamList, 'CaptchaChallenge'>;
 
-// Define a captcha generator function
-const generateCaptcha = (): { image: string, text: string } => {
-    // Characters that will be used in the captcha (excluding similar-looking characters)
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-
-    // Generate a random 6-character string
-    let captchaText = '';
-    for (let i = 0; i < 6; i++) {
-        captchaText += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-
-    // Create a visual representation of the captcha
-    // For simplicity, we'll use ASCII art to represent the captcha
-    // In a production app, you'd generate actual images with distortions
-    let captchaImage = '';
-    const styles = ['━', '╋', '┓', '┛', '┗', '┏', '┃', '┻', '┳', '┫', '┣'];
-
-    // Add some "noise" with random symbols
-    for (let i = 0; i < 5; i++) {
-        captchaImage += ' ' + styles[Math.floor(Math.random() * styles.length)];
-    }
-    captchaImage += '\n';
-
-    // Add the actual characters with some "distortion"
-    for (let i = 0; i < captchaText.length; i++) {
-        const char = captchaText[i];
-
-        // Add some random spacing and symbols around the character
-        const prefix = Math.random() > 0.5 ? styles[Math.floor(Math.random() * styles.length)] : ' ';
-        const suffix = Math.random() > 0.5 ? styles[Math.floor(Math.random() * styles.length)] : ' ';
-
-        captchaImage += prefix + char + suffix;
-    }
-    captchaImage += '\n';
-
-    // Add some more "noise" with random symbols
-    for (let i = 0; i < 5; i++) {
-        captchaImage += ' ' + styles[Math.floor(Math.random() * styles.length)];
-    }
-
-    return {
-        image: captchaImage,
-        text: captchaText
-    };
-};
+// Render a captcha as a distorted SVG image
+const CaptchaImage = ({ captcha }: { captcha: Captcha }) => (
+    <Svg
+        width="100%"
+        height={captcha.height}
+        viewBox={`0 0 ${captcha.width} ${captcha.height}`}
+        accessibilityLabel="Captcha image"
+    >
+        <Rect x={0} y={0} width={captcha.width} height={captcha.height} rx={8} fill={captcha.background} />
+        {captcha.dots.map((dot, index) => (
+            <Circle key={`dot_${index}`} cx={dot.cx} cy={dot.cy} r={dot.r} fill={dot.color} />
+        ))}
+        {captcha.glyphs.map((glyph, index) => (
+            <G
+                key={`glyph_${index}`}
+                transform={`translate(${glyph.x} ${glyph.y}) rotate(${glyph.rotation}) skewX(${glyph.skewX}) scale(${glyph.scaleX} 1)`}
+            >
+                <SvgText
+                    x={0}
+                    y={0}
+                    fontSize={glyph.fontSize}
+                    fontWeight="bold"
+                    fontFamily={Platform.OS === 'ios' ? 'Courier' : 'monospace'}
+                    fill={glyph.color}
+                    textAnchor="middle"
+                >
+                    {glyph.char}
+                </SvgText>
+            </G>
+        ))}
+        {/* Noise goes on top so it cuts through the characters */}
+        {captcha.lines.map((line, index) => (
+            <Path
+                key={`line_${index}`}
+                d={line.path}
+                stroke={line.color}
+                strokeWidth={line.width}
+                fill="none"
+            />
+        ))}
+    </Svg>
+);
 
 const CaptchaChallengeScreen = () => {
     const route = useRoute<CaptchaChallengeRouteProp>();
     const navigation = useNavigation<CaptchaChallengeNavigationProp>();
-    const { alarm } = route.params;
-
-    // Sound object for alarm
-    const [sound, setSound] = useState<Audio.Sound | null>(null);
+    const { alarm, step = 0 } = route.params;
+    const stepLabel = getChallengeStepLabel(alarm, step);
+    const difficulty = alarm.captchaDifficulty ?? DEFAULT_CAPTCHA_DIFFICULTY;
 
     // Current time displayed
     const [currentTime, setCurrentTime] = useState('');
 
     // Captcha state
-    const [captcha, setCaptcha] = useState(generateCaptcha());
+    const [captcha, setCaptcha] = useState(() => generateCaptcha(difficulty));
     const [userInput, setUserInput] = useState('');
     const [isCorrect, setIsCorrect] = useState(false);
     const [attempts, setAttempts] = useState(0);
+    const [isSpeaking, setIsSpeaking] = useState(false);
 
     // Format current time
     const getCurrentTime = () => {
@@ -98,27 +106,24 @@ const CaptchaChallengeScreen = () => {
 
     // Submit captcha answer
     const submitAnswer = () => {
-        // Check if the input matches the captcha text (case insensitive)
-        if (userInput.toUpperCase() === captcha.text) {
+        stopSpeaking();
+
+        // Case only matters on difficulties that say so
+        if (checkCaptchaAnswer(captcha, userInput)) {
+            // Chained challenges move on to the next step and keep ringing
+            if (goToNextChallengeStep(navigation, alarm, step)) return;
+
             // Correct answer
             setIsCorrect(true);
 
             // Stop sound and vibration
-            if (sound) {
-                sound.stopAsync().then(() => {
-                    sound.unloadAsync();
-                }).catch(error => {
-                    console.error('Error stopping sound:', error);
-                });
-            }
+            AlarmAudioService.stop();
 
-            Vibration.cancel();
+            // Alarm is dismissed - drop any pending snooze
+            cancelSnooze(alarm.id);
 
             // Important: Cancel the alarm notification that triggered this screen
-            if (alarm && alarm.notificationId) {
-                Notifications.dismissNotificationAsync(alarm.notificationId)
-                    .catch(error => console.error('Error dismissing notification:', error));
-            }
+            dismissAlarmNotifications(alarm);
 
             // Wait a moment to show success message before navigating back
             setTimeout(() => {
@@ -127,11 +132,12 @@ const CaptchaChallengeScreen = () => {
         } else {
             // Wrong answer
             setAttempts(attempts + 1);
+            recordChallengeAttempt(alarm.id);
             setUserInput('');
 
             // Generate a new captcha after 3 failed attempts
             if (attempts >= 2) {
-                setCaptcha(generateCaptcha());
+                setCaptcha(generateCaptcha(difficulty));
                 setAttempts(0);
 
                 // Vibrate to indicate error
@@ -157,51 +163,44 @@ const CaptchaChallengeScreen = () => {
 
     // Generate a new captcha
     const refreshCaptcha = () => {
-        setCaptcha(generateCaptcha());
+        stopSpeaking();
+        setCaptcha(generateCaptcha(difficulty));
         setUserInput('');
     };
 
-    // Load and play alarm sound
-    const playAlarmSound = async () => {
-        try {
-            const { sound } = await Audio.Sound.createAsync(
-                require('../../assets/alarm-sound.mp3'),
-                { shouldPlay: true, isLooping: true, volume: 1.0 }
-            );
-            setSound(sound);
-        } catch (error) {
-            console.error('Error playing alarm sound:', error);
+    // Read the captcha out loud with the alarm turned down
+    const speakCaptcha = () => {
+        if (isSpeaking) {
+            stopSpeaking();
+            return;
         }
-    };
 
-    // Initialize alarm on component mount
-    useEffect(() => {
-        // Setup audio
-        Audio.setAudioModeAsync({
-            allowsRecordingIOS: false,
-            staysActiveInBackground: true,
-            interruptionModeIOS: Audio.INTERRUPTION_MODE_IOS_DO_NOT_MIX,
-            playsInSilentModeIOS: true,
-            shouldDuckAndroid: true,
-            interruptionModeAndroid: Audio.INTERRUPTION_MODE_ANDROID_DO_NOT_MIX,
-            playThroughEarpieceAndroid: false,
-        });
+        setIsSpeaking(true);
+        AlarmAudioService.setDucked(true);
 
-        // Play sound
-        playAlarmSound();
+        const finishSpeaking = () => {
+            setIsSpeaking(false);
+            AlarmAudioService.setDucked(false);
+        };
 
-        // Start vibration pattern
-        if (Platform.OS === 'android') {
-            // Android can use complex patterns (wait, vibrate, wait, vibrate, etc.)
-            Vibration.vibrate([500, 1000, 500, 1000], true);
-        } else {
-            // iOS needs a simpler approach
-            const vibrateInterval = setInterval(() => {
-                Vibration.vibrate();
-            }, 1500);
+        Speech.speak(getSpokenCaptcha(captcha), {
+            rate: 0.6,
+            onDone: finishSpeaking,
+            onStopped: finishSpeaking,
+            onError: finishSpeaking,
+        });
+    };
 
-            return () => clearInterval(vibrateInterval);
-        }
+    const stopSpeaking = () => {
+        Speech.stop();
+        setIsSpeaking(false);
+        AlarmAudioService.setDucked(false);
+    };
+
+    // Initialize alarm on component mount
+    useEffect(() => {
+        // Keep ringing - the sound carries over from the ringing screen
+        AlarmAudioService.start(alarm);
 
         // Update current time
         const timeInterval = setInterval(() => {
@@ -216,12 +215,11 @@ const CaptchaChallengeScreen = () => {
 
         // Cleanup function
         return () => {
-            if (sound) {
-                sound.unloadAsync();
-            }
-            Vibration.cancel();
             clearInterval(timeInterval);
             backHandler.remove();
+            // The alarm may keep ringing on the next challenge step
+            Speech.stop();
+            AlarmAudioService.setDucked(false);
         };
     }, []);
 
@@ -231,6 +229,7 @@ const CaptchaChallengeScreen = () => {
             <View style={styles.alarmInfo}>
                 <Text style={styles.timeText}>{currentTime}</Text>
                 <Text style={styles.alarmLabel}>{alarm?.label || 'Alarm'}</Text>
+                {stepLabel && <Text style={styles.stepText}>{stepLabel}</Text>}
             </View>
 
             <KeyboardAvoidingView
@@ -241,6 +240,7 @@ const CaptchaChallengeScreen = () => {
                 <View style={styles.instructionsContainer}>
                     <Text style={styles.instructionsText}>
                         Enter the captcha text to dismiss the alarm
+                        {captcha.caseSensitive ? ' - upper and lower case must match' : ''}
                     </Text>
                 </View>
 
@@ -254,14 +254,26 @@ const CaptchaChallengeScreen = () => {
                     <>
                         {/* Captcha Image */}
                         <View style={styles.captchaImageContainer}>
-                            <Text style={styles.captchaImage}>{captcha.image}</Text>
-                            <TouchableOpacity
-                                style={styles.refreshButton}
-                                onPress={refreshCaptcha}
-                            >
-                                <Feather name="refresh-cw" size={20} color="#fff" />
-                                <Text style={styles.refreshButtonText}>New Captcha</Text>
-                            </TouchableOpacity>
+                            <CaptchaImage captcha={captcha} />
+                            <View style={styles.captchaActions}>
+                                <TouchableOpacity
+                                    style={styles.refreshButton}
+                                    onPress={refreshCaptcha}
+                                >
+                                    <Feather name="refresh-cw" size={20} color="#fff" />
+                                    <Text style={styles.refreshButtonText}>New Captcha</Text>
+                                </TouchableOpacity>
+                                {alarm.captchaAudio && (
+                                    <TouchableOpacity
+                                        style={styles.refreshButton}
+                                        onPress={speakCaptcha}
+                                        accessibilityLabel={isSpeaking ? 'Stop audio captcha' : 'Play audio captcha'}
+                                    >
+                                        <Feather name={isSpeaking ? 'square' : 'volume-2'} size={20} color="#fff" />
+                                        <Text style={styles.refreshButtonText}>{isSpeaking ? 'Stop' : 'Listen'}</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </View>
                         </View>
 
                         {/* Captcha Input */}
@@ -272,14 +284,14 @@ const CaptchaChallengeScreen = () => {
                                 onChangeText={setUserInput}
                                 placeholder="Enter captcha text"
                                 placeholderTextColor="#aaa"
-                                autoCapitalize="characters"
+                                autoCapitalize={captcha.caseSensitive ? 'none' : 'characters'}
                                 autoCorrect={false}
-                                maxLength={6}
+                                maxLength={captcha.text.length}
                             />
                             <TouchableOpacity
                                 style={styles.submitButton}
                                 onPress={submitAnswer}
-                                disabled={userInput.length < 4}
+                                disabled={userInput.length < captcha.text.length}
                             >
                                 <Text style={styles.submitButtonText}>Verify</Text>
                             </TouchableOpacity>
@@ -311,6 +323,12 @@ const styles = StyleSheet.create({
         color: '#aaa',
         marginTop: 8,
     },
+    stepText: {
+        fontSize: 16,
+        color: '#2E7D87',
+        fontWeight: '600',
+        marginTop: 8,
+    },
     instructionsContainer: {
         marginBottom: 30,
         paddingHorizontal: 30,
@@ -333,13 +351,10 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         marginBottom: 20,
     },
-    captchaImage: {
-        fontSize: 22,
-        fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
-        fontWeight: 'bold',
-        color: '#fff',
-        textAlign: 'center',
-        marginBottom: 15,
+    captchaActions: {
+        flexDirection: 'row',
+        justifyContent: 'center',
+        marginTop: 10,
     },
     refreshButton: {
         flexDirection: 'row',
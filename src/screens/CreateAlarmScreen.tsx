@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -7,7 +7,8 @@ import {
   Switch,
   Platform,
   TextInput,
-  Alert
+  Alert,
+  ActivityIndicator
 } from 'react-native';
 import { Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -15,12 +16,52 @@ import { Feather } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
-import { useNavigation } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { AlarmMode } from '../types';
-import { scheduleAlarmNotification } from '../services/alarmService';
+import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
+import {
+  Alarm,
+  AlarmMode,
+  QuizDifficulty,
+  CaptchaDifficulty,
+  FindButtonDifficulty,
+  MemorySpeed,
+  MemorySymbols,
+  QRCodeOrder
+} from '../types';
+import { scheduleAlarmNotification, cancelAlarmNotification, cancelSnooze } from '../services/alarmService';
+import { AlarmRepository } from '../services/alarmRepository';
+import { parseAlarmTime } from '../services/alarmSchema';
+import { SELECTABLE_CHALLENGES, getChallenge, getChallengeSteps } from '../services/challengeRegistry';
+import { DEFAULT_SNOOZE_MINUTES, DEFAULT_MAX_SNOOZES } from '../services/snoozeService';
+import { DEFAULT_FADE_IN_SECONDS, AlarmAudioService } from '../services/alarmAudioService';
+import { QUIZ_DIFFICULTIES, DEFAULT_QUIZ_DIFFICULTY, DEFAULT_QUIZ_STREAK } from '../services/quizGenerator';
+import { QuizPack, getQuizPacks } from '../services/quizPackService';
+import { CAPTCHA_DIFFICULTIES, DEFAULT_CAPTCHA_DIFFICULTY } from '../services/captchaGenerator';
+import { FIND_BUTTON_DIFFICULTIES, DEFAULT_FIND_BUTTON_DIFFICULTY } from '../services/findButtonDifficulty';
+import {
+  MEMORY_LENGTH_OPTIONS,
+  MEMORY_SPEEDS,
+  MEMORY_SYMBOL_OPTIONS,
+  DEFAULT_MEMORY_LENGTH,
+  DEFAULT_MEMORY_SPEED,
+  DEFAULT_MEMORY_SYMBOLS
+} from '../services/memorySequence';
+import {
+  TYPING_LENGTH_OPTIONS,
+  TYPING_ACCURACY_OPTIONS,
+  TYPING_WPM_OPTIONS,
+  DEFAULT_TYPING_MIN_LENGTH
+} from '../services/typingChallenge';
+import { getQRCodes } from '../services/qrCodeService';
+import {
+  AlarmSound,
+  DEFAULT_SOUND_ID,
+  getAllSounds,
+  importCustomSound,
+  deleteCustomSound
+} from '../services/soundLibrary';
 
 type CreateAlarmScreenNavigationProp = StackNavigationProp<RootStackParamList, 'CreateAlarm'>;
+type CreateAlarmScreenRouteProp = RouteProp<RootStackParamList, 'CreateAlarm'>;
 
 // Days of the week selection
 const DAYS = [
@@ -33,48 +74,242 @@ const DAYS = [
   { id: 6, short: 'S', long: 'Sat' },
 ];
 
-// Available challenge modes
-const CHALLENGE_MODES = [
-  { 
-    id: AlarmMode.TINY_BUTTON, 
-    label: 'Find Button', 
-    description: 'Find and press the correct snooze button',
-    icon: 'target'
-  },
-  { 
-    id: AlarmMode.QUIZ, 
-    label: 'Solve Quiz', 
-    description: 'Answer a math question correctly to dismiss',
-    icon: 'help-circle'
-  },
-  {
-    id: AlarmMode.CAPTCHA,
-    label: 'Solve Captcha',
-    description: 'Type the characters you see to dismiss',
-    icon: 'shield'
-  },
-  {
-    id: 'QR_CODE' as AlarmMode,
-    label: 'Scan QR Code',
-    description: 'Scan a specific QR code to dismiss the alarm',
-    icon: 'grid',
-    requiresSetup: true
-  }
-];
+// Snooze duration options in minutes
+const SNOOZE_DURATIONS = [1, 5, 9, 10, 15];
+
+// Maximum snooze count options (0 disables snooze)
+const MAX_SNOOZE_OPTIONS = [0, 1, 2, 3, 5];
+
+// Fade-in options in seconds (0 starts at full volume)
+const FADE_IN_OPTIONS = [0, 15, 30, 60, 120];
+
+// Correct answers in a row options for quiz alarms
+const QUIZ_STREAK_OPTIONS = [1, 2, 3, 5];
+
+// Challenges that scan codes - an alarm has one set of linked codes, so only one of these per alarm
+const isScanChallenge = (mode: AlarmMode) => mode === AlarmMode.QR_CODE || mode === AlarmMode.BARCODE;
+
+// Format a fade-in duration for the option chips, e.g. "30 sec" or "2 min"
+const formatFadeIn = (seconds: number) => {
+  if (seconds === 0) return 'Off';
+  return seconds < 60 ? `${seconds} sec` : `${seconds / 60} min`;
+};
 
 const CreateAlarmScreen = () => {
   const navigation = useNavigation<CreateAlarmScreenNavigationProp>();
+  const route = useRoute<CreateAlarmScreenRouteProp>();
   
-  // State for the new alarm
+  // Alarm being edited - undefined when creating a new alarm
+  const editAlarmId = route.params?.alarmId;
+  const isEditing = !!editAlarmId;
+  const [existingAlarm, setExistingAlarm] = useState<Alarm | null>(null);
+  const [isLoading, setIsLoading] = useState(isEditing);
+  
+  // QR codes bound to the alarm and whether the user wants to scan new ones
+  const [qrCodeIds, setQrCodeIds] = useState<string[]>([]);
+  const [qrCodeNames, setQrCodeNames] = useState<string[]>([]);
+  const [qrCodeOrder, setQrCodeOrder] = useState<QRCodeOrder>('ordered');
+  const [rescanQRCode, setRescanQRCode] = useState(false);
+  
+  // State for the alarm
   const [date, setDate] = useState(new Date());
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
   const [label, setLabel] = useState('Alarm');
   const [isActive, setIsActive] = useState(true);
   const [selectedMode, setSelectedMode] = useState<AlarmMode>(AlarmMode.TINY_BUTTON);
+  const [extraSteps, setExtraSteps] = useState<AlarmMode[]>([]);
+  const [snoozeMinutes, setSnoozeMinutes] = useState(DEFAULT_SNOOZE_MINUTES);
+  const [maxSnoozes, setMaxSnoozes] = useState(DEFAULT_MAX_SNOOZES);
+  const [fadeInSeconds, setFadeInSeconds] = useState(DEFAULT_FADE_IN_SECONDS);
+  const [soundId, setSoundId] = useState(DEFAULT_SOUND_ID);
+  const [quizDifficulty, setQuizDifficulty] = useState<QuizDifficulty>(DEFAULT_QUIZ_DIFFICULTY);
+  const [quizStreak, setQuizStreak] = useState(DEFAULT_QUIZ_STREAK);
+  const [quizPackIds, setQuizPackIds] = useState<string[]>([]);
+  const [captchaDifficulty, setCaptchaDifficulty] = useState<CaptchaDifficulty>(DEFAULT_CAPTCHA_DIFFICULTY);
+  const [captchaAudio, setCaptchaAudio] = useState(false);
+  const [findButtonDifficulty, setFindButtonDifficulty] = useState<FindButtonDifficulty>(DEFAULT_FIND_BUTTON_DIFFICULTY);
+  const [memoryLength, setMemoryLength] = useState(DEFAULT_MEMORY_LENGTH);
+  const [memorySpeed, setMemorySpeed] = useState<MemorySpeed>(DEFAULT_MEMORY_SPEED);
+  const [memorySymbols, setMemorySymbols] = useState<MemorySymbols>(DEFAULT_MEMORY_SYMBOLS);
+  const [typingMinLength, setTypingMinLength] = useState(DEFAULT_TYPING_MIN_LENGTH);
+  const [typingMinAccuracy, setTypingMinAccuracy] = useState(0);
+  const [typingMinWpm, setTypingMinWpm] = useState(0);
+  
+  // Imported quiz packs - reloaded when returning from the pack manager
+  const [quizPacks, setQuizPacks] = useState<QuizPack[]>([]);
+  
+  // Sound library and the sound currently being previewed
+  const [sounds, setSounds] = useState<AlarmSound[]>([]);
+  const [previewSoundId, setPreviewSoundId] = useState<string | null>(null);
+  const [isImportingSound, setIsImportingSound] = useState(false);
   
   // For iOS date picker modal
   const [showTimePicker, setShowTimePicker] = useState(Platform.OS === 'ios');
 
+  // Pre-fill the form when editing an existing alarm
+  useEffect(() => {
+    if (!editAlarmId) return;
+    
+    const loadAlarm = async () => {
+      try {
+        const alarm = await AlarmRepository.get(editAlarmId);
+        if (!alarm) {
+          Alert.alert('Error', 'This alarm no longer exists.', [
+            { text: 'OK', onPress: () => navigation.goBack() }
+          ]);
+          return;
+        }
+        
+        setExistingAlarm(alarm);
+        
+        // Convert the stored time back into a Date for the picker
+        const parsedTime = parseAlarmTime(alarm.time);
+        if (parsedTime) {
+          const alarmDate = new Date();
+          alarmDate.setHours(parsedTime.hours, parsedTime.minutes, 0, 0);
+          setDate(alarmDate);
+        }
+        
+        setSelectedDays(alarm.days);
+        setLabel(alarm.label);
+        setIsActive(alarm.isActive);
+        setSelectedMode(alarm.mode);
+        setExtraSteps(getChallengeSteps(alarm).slice(1));
+        setSnoozeMinutes(alarm.snoozeMinutes ?? DEFAULT_SNOOZE_MINUTES);
+        setMaxSnoozes(alarm.maxSnoozes ?? DEFAULT_MAX_SNOOZES);
+        setFadeInSeconds(alarm.fadeInSeconds ?? DEFAULT_FADE_IN_SECONDS);
+        setSoundId(alarm.sound);
+        setQuizDifficulty(alarm.quizDifficulty ?? DEFAULT_QUIZ_DIFFICULTY);
+        setQuizStreak(alarm.quizStreak ?? DEFAULT_QUIZ_STREAK);
+        setQuizPackIds(alarm.quizPackIds ?? []);
+        setCaptchaDifficulty(alarm.captchaDifficulty ?? DEFAULT_CAPTCHA_DIFFICULTY);
+        setCaptchaAudio(alarm.captchaAudio ?? false);
+        setFindButtonDifficulty(alarm.findButtonDifficulty ?? DEFAULT_FIND_BUTTON_DIFFICULTY);
+        setMemoryLength(alarm.memoryLength ?? DEFAULT_MEMORY_LENGTH);
+        setMemorySpeed(alarm.memorySpeed ?? DEFAULT_MEMORY_SPEED);
+        setMemorySymbols(alarm.memorySymbols ?? DEFAULT_MEMORY_SYMBOLS);
+        setTypingMinLength(alarm.typingMinLength ?? DEFAULT_TYPING_MIN_LENGTH);
+        setTypingMinAccuracy(alarm.typingMinAccuracy ?? 0);
+        setTypingMinWpm(alarm.typingMinWpm ?? 0);
+        
+        if (alarm.qrCodeIds && alarm.qrCodeIds.length > 0) {
+          setQrCodeIds(alarm.qrCodeIds);
+          setQrCodeOrder(alarm.qrCodeOrder ?? 'ordered');
+          const qrCodes = await getQRCodes(alarm.qrCodeIds);
+          setQrCodeNames(qrCodes.map(qrCode => qrCode?.name || 'Saved QR Code'));
+        }
+      } catch (error) {
+        console.error('Error loading alarm for editing:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    
+    loadAlarm();
+  }, [editAlarmId]);
+
+  // Load the sound library and stop any preview when leaving the screen
+  useEffect(() => {
+    loadSounds();
+    
+    return () => {
+      AlarmAudioService.stopPreview();
+    };
+  }, []);
+
+  const loadSounds = async () => {
+    setSounds(await getAllSounds());
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      getQuizPacks().then(setQuizPacks);
+    }, [])
+  );
+
+  // Turn a quiz pack on or off for this alarm
+  const toggleQuizPack = (packId: string) => {
+    setQuizPackIds(current => (
+      current.includes(packId) ? current.filter(id => id !== packId) : [...current, packId]
+    ));
+  };
+
+  // Pick the first challenge - it can't also be a later step, and only one step can scan codes
+  const selectMode = (mode: AlarmMode) => {
+    setSelectedMode(mode);
+    setExtraSteps(current => current.filter(step => (
+      step !== mode && !(isScanChallenge(mode) && isScanChallenge(step))
+    )));
+  };
+
+  // Add or remove a challenge solved after the first one
+  const addChallengeStep = (mode: AlarmMode) => {
+    setExtraSteps(current => [...current, mode]);
+  };
+
+  const removeChallengeStep = (mode: AlarmMode) => {
+    setExtraSteps(current => current.filter(step => step !== mode));
+  };
+
+  // Play or stop a sound preview
+  const togglePreview = (id: string) => {
+    if (previewSoundId === id) {
+      AlarmAudioService.stopPreview();
+      setPreviewSoundId(null);
+      return;
+    }
+    
+    setPreviewSoundId(id);
+    AlarmAudioService.preview(id, () => {
+      setPreviewSoundId(current => (current === id ? null : current));
+    });
+  };
+
+  // Import an audio file into the sound library and select it
+  const importSound = async () => {
+    setIsImportingSound(true);
+    try {
+      const sound = await importCustomSound();
+      if (sound) {
+        await loadSounds();
+        setSoundId(sound.id);
+      }
+    } catch (error) {
+      console.error('Error importing sound:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'The sound could not be imported.');
+    } finally {
+      setIsImportingSound(false);
+    }
+  };
+
+  // Remove an imported sound after confirmation
+  const confirmDeleteSound = (sound: AlarmSound) => {
+    if (!sound.isCustom) return;
+    
+    Alert.alert(
+      'Delete Sound',
+      `Remove "${sound.name}" from your sounds? Alarms using it will ring with the default tone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (previewSoundId === sound.id) {
+              AlarmAudioService.stopPreview();
+              setPreviewSoundId(null);
+            }
+            await deleteCustomSound(sound.id);
+            if (soundId === sound.id) {
+              setSoundId(DEFAULT_SOUND_ID);
+            }
+            await loadSounds();
+          }
+        }
+      ]
+    );
+  };
+
   // Format time for display
   const formatTime = (date: Date) => {
     const hours = date.getHours();
@@ -111,50 +346,106 @@ const CreateAlarmScreen = () => {
     }
   };
 
+  // Every challenge of the alarm in the order it's solved
+  const challengeSteps = [selectedMode, ...extraSteps];
+  const usesMode = (mode: AlarmMode) => challengeSteps.includes(mode);
+  const availableSteps = SELECTABLE_CHALLENGES.filter(challenge => (
+    !usesMode(challenge.mode) && !(isScanChallenge(challenge.mode) && challengeSteps.some(isScanChallenge))
+  ));
+
+  // Codes already linked to the alarm being edited, kept while one of its steps stays in the same scanning mode
+  const scanMode = challengeSteps.find(isScanChallenge);
+  const isScanMode = scanMode !== undefined;
+  const hasLinkedCodes = isScanMode && !!existingAlarm
+    && getChallengeSteps(existingAlarm).includes(scanMode) && qrCodeIds.length > 0;
+
   // Save the alarm
   const saveAlarm = async () => {
     try {
       // Format time for display
       const timeString = `${hours}:${minutes} ${ampm}`;
+      const isQuizMode = usesMode(AlarmMode.QUIZ);
+      const isCaptchaMode = usesMode(AlarmMode.CAPTCHA);
+      const isFindButtonMode = usesMode(AlarmMode.TINY_BUTTON);
+      const isMemoryMode = usesMode(AlarmMode.MEMORY);
+      const isTypingMode = usesMode(AlarmMode.TYPING);
+      const alarmId = existingAlarm ? existingAlarm.id : Date.now().toString();
       
-      // Create alarm object
-      const newAlarm = {
-        id: Date.now().toString(),
+      // Alarm fields set from the form
+      const formFields = {
         time: timeString,
         label,
         isActive,
         mode: selectedMode,
+        // Single challenges leave the chain unset
+        challengeSteps: extraSteps.length > 0 ? challengeSteps : undefined,
         days: selectedDays,
-        sound: 'default'
+        snoozeMinutes,
+        maxSnoozes,
+        fadeInSeconds,
+        sound: soundId,
+        // Only keep the linked codes while the alarm stays in the same scanning mode
+        qrCodeIds: hasLinkedCodes ? qrCodeIds : undefined,
+        qrCodeOrder: hasLinkedCodes ? qrCodeOrder : undefined,
+        // Challenge settings only apply to alarms with that challenge as one of their steps
+        quizDifficulty: isQuizMode ? quizDifficulty : undefined,
+        quizStreak: isQuizMode ? quizStreak : undefined,
+        // Drop packs that were deleted since the alarm was last saved
+        quizPackIds: isQuizMode ? quizPackIds.filter(id => quizPacks.some(pack => pack.id === id)) : undefined,
+        captchaDifficulty: isCaptchaMode ? captchaDifficulty : undefined,
+        captchaAudio: isCaptchaMode ? captchaAudio : undefined,
+        findButtonDifficulty: isFindButtonMode ? findButtonDifficulty : undefined,
+        memoryLength: isMemoryMode ? memoryLength : undefined,
+        memorySpeed: isMemoryMode ? memorySpeed : undefined,
+        memorySymbols: isMemoryMode ? memorySymbols : undefined,
+        typingMinLength: isTypingMode ? typingMinLength : undefined,
+        typingMinAccuracy: isTypingMode ? typingMinAccuracy : undefined,
+        typingMinWpm: isTypingMode ? typingMinWpm : undefined
       };
       
-      // For QR code mode, navigate to QR code setup first
-      if (selectedMode === 'QR_CODE' as AlarmMode) {
-        navigation.navigate('QRCodeSetup', { alarmId: newAlarm.id });
+      // Challenges that need setup (or new codes to scan) go to their setup screen first
+      // The alarm stays off until the setup screen binds the challenge data, so it can't ring without it
+      const { setup } = getChallenge(challengeSteps.find(mode => getChallenge(mode).setup) ?? selectedMode);
+      const needsSetup = !!setup && (!setup.isComplete({ id: alarmId, ...formFields }) || (hasLinkedCodes && rescanQRCode));
+      const alarmFields = { ...formFields, isActive: isActive && !needsSetup };
+      
+      let savedAlarm: Alarm | null;
+      
+      if (existingAlarm) {
+        // Cancel the old schedule and any pending snooze before the alarm changes
+        await cancelAlarmNotification(existingAlarm);
+        await cancelSnooze(existingAlarm.id);
         
-        // Save the alarm without activating it yet
-        const existingAlarmsJson = await AsyncStorage.getItem('alarms');
-        const existingAlarms = existingAlarmsJson ? JSON.parse(existingAlarmsJson) : [];
-        const updatedAlarms = [...existingAlarms, newAlarm];
-        await AsyncStorage.setItem('alarms', JSON.stringify(updatedAlarms));
+        savedAlarm = await AlarmRepository.update(existingAlarm.id, {
+          ...alarmFields,
+          // Old timing no longer applies - the scheduler recalculates it
+          scheduledTime: undefined,
+          exactHours: undefined,
+          exactMinutes: undefined
+        });
         
-        return;
+        if (!savedAlarm) {
+          throw new Error(`Alarm ${existingAlarm.id} no longer exists`);
+        }
+      } else {
+        savedAlarm = await AlarmRepository.create({
+          id: alarmId,
+          ...alarmFields
+        });
       }
       
-      // Get existing alarms
-      const existingAlarmsJson = await AsyncStorage.getItem('alarms');
-      const existingAlarms = existingAlarmsJson ? JSON.parse(existingAlarmsJson) : [];
-      
-      // Add new alarm and save
-      const updatedAlarms = [...existingAlarms, newAlarm];
-      await AsyncStorage.setItem('alarms', JSON.stringify(updatedAlarms));
+      // The setup screen turns the alarm on and schedules it once the challenge data is bound
+      if (setup && needsSetup) {
+        navigation.replace(setup.route, { alarmId: savedAlarm.id, activate: isActive, ...setup.params });
+        return;
+      }
       
       // Schedule the alarm notification if it's active
-      if (isActive) {
+      if (savedAlarm.isActive) {
         try {
-          await scheduleAlarmNotification(newAlarm);
+          await scheduleAlarmNotification(savedAlarm);
           Alert.alert(
-            "Alarm Set",
+            isEditing ? "Alarm Updated" : "Alarm Set",
             `Your alarm has been set for ${timeString}${selectedDays.length > 0 ? ' on selected days' : ''}.`,
             [{ text: "OK" }]
           );
@@ -180,13 +471,23 @@ const CreateAlarmScreen = () => {
     }
   };
 
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2E7D87" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
           <Feather name="arrow-left" size={20} color="#333" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>new alarm</Text>
+        <Text style={styles.headerTitle}>{isEditing ? 'edit alarm' : 'new alarm'}</Text>
         <TouchableOpacity onPress={saveAlarm} style={styles.headerButton}>
           <Feather name="check" size={20} color="#333" />
         </TouchableOpacity>
@@ -262,41 +563,557 @@ const CreateAlarmScreen = () => {
           </View>
         </View>
         
+        {/* Snooze Settings */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>snooze for</Text>
+          <View style={styles.optionRow}>
+            {SNOOZE_DURATIONS.map(duration => (
+              <TouchableOpacity
+                key={duration}
+                style={[
+                  styles.optionChip,
+                  snoozeMinutes === duration && styles.selectedOptionChip
+                ]}
+                onPress={() => setSnoozeMinutes(duration)}
+              >
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    snoozeMinutes === duration && styles.selectedOptionChipText
+                  ]}
+                >
+                  {duration} min
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          
+          <Text style={[styles.sectionTitle, styles.subSectionTitle]}>max snoozes</Text>
+          <View style={styles.optionRow}>
+            {MAX_SNOOZE_OPTIONS.map(count => (
+              <TouchableOpacity
+                key={count}
+                style={[
+                  styles.optionChip,
+                  maxSnoozes === count && styles.selectedOptionChip
+                ]}
+                onPress={() => setMaxSnoozes(count)}
+              >
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    maxSnoozes === count && styles.selectedOptionChipText
+                  ]}
+                >
+                  {count === 0 ? 'Off' : count}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+        
+        {/* Fade-in Settings */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>fade in</Text>
+          <View style={styles.optionRow}>
+            {FADE_IN_OPTIONS.map(seconds => (
+              <TouchableOpacity
+                key={seconds}
+                style={[
+                  styles.optionChip,
+                  fadeInSeconds === seconds && styles.selectedOptionChip
+                ]}
+                onPress={() => setFadeInSeconds(seconds)}
+              >
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    fadeInSeconds === seconds && styles.selectedOptionChipText
+                  ]}
+                >
+                  {formatFadeIn(seconds)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+        
+        {/* Sound Selection */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>sound</Text>
+          <View style={styles.challengeContainer}>
+            {sounds.map(sound => (
+              <TouchableOpacity
+                key={sound.id}
+                style={[
+                  styles.challengeOption,
+                  soundId === sound.id && styles.selectedChallengeOption
+                ]}
+                onPress={() => setSoundId(sound.id)}
+                onLongPress={() => confirmDeleteSound(sound)}
+              >
+                <TouchableOpacity
+                  onPress={() => togglePreview(sound.id)}
+                  style={styles.previewButton}
+                >
+                  <Feather
+                    name={previewSoundId === sound.id ? 'square' : 'play'}
+                    size={16}
+                    color="#2E7D87"
+                  />
+                </TouchableOpacity>
+                <View style={styles.challengeTextContainer}>
+                  <Text style={styles.challengeTitle}>{sound.name}</Text>
+                  {sound.isCustom && (
+                    <Text style={styles.challengeDescription}>Imported - hold to delete</Text>
+                  )}
+                </View>
+                <View style={[
+                  styles.radioCircle,
+                  soundId === sound.id && styles.radioCircleSelected
+                ]}>
+                  {soundId === sound.id && <View style={styles.radioInner} />}
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+          
+          <TouchableOpacity
+            style={styles.importSoundButton}
+            onPress={importSound}
+            disabled={isImportingSound}
+          >
+            {isImportingSound ? (
+              <ActivityIndicator size="small" color="#2E7D87" />
+            ) : (
+              <Feather name="upload" size={16} color="#2E7D87" />
+            )}
+            <Text style={styles.importSoundText}>Import sound</Text>
+          </TouchableOpacity>
+        </View>
+        
         {/* Challenge Mode Selection */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>challenge mode</Text>
           <View style={styles.challengeContainer}>
-            {CHALLENGE_MODES.map(mode => (
+            {SELECTABLE_CHALLENGES.map(mode => (
               <TouchableOpacity
-                key={mode.id}
+                key={mode.mode}
                 style={[
                   styles.challengeOption,
-                  selectedMode === mode.id && styles.selectedChallengeOption
+                  selectedMode === mode.mode && styles.selectedChallengeOption
                 ]}
-                onPress={() => setSelectedMode(mode.id)}
+                onPress={() => selectMode(mode.mode)}
               >
                 <Feather 
-                  name={mode.icon as any} 
+                  name={mode.icon} 
                   size={20} 
                   color="#333" 
                   style={styles.challengeIcon} 
                 />
                 <View style={styles.challengeTextContainer}>
-                  <Text style={styles.challengeTitle}>{mode.label}</Text>
+                  <Text style={styles.challengeTitle}>{mode.name}</Text>
                   <Text style={styles.challengeDescription}>{mode.description}</Text>
-                  {mode.requiresSetup && (
+                  {mode.setup && (
                     <Text style={styles.setupRequired}>Requires setup</Text>
                   )}
                 </View>
                 <View style={[
                   styles.radioCircle,
-                  selectedMode === mode.id && styles.radioCircleSelected
+                  selectedMode === mode.mode && styles.radioCircleSelected
                 ]}>
-                  {selectedMode === mode.id && <View style={styles.radioInner} />}
+                  {selectedMode === mode.mode && <View style={styles.radioInner} />}
                 </View>
               </TouchableOpacity>
             ))}
           </View>
+          
+          {/* Further challenges solved one after another */}
+          <Text style={[styles.sectionTitle, styles.subSectionTitle]}>then</Text>
+          <Text style={[styles.challengeDescription, styles.stepsDescription]}>
+            Add challenges to solve one after another. The alarm keeps ringing until the last one is done.
+          </Text>
+          {extraSteps.length > 0 && (
+            <View style={[styles.optionRow, styles.stepsRow]}>
+              {extraSteps.map((step, index) => (
+                <TouchableOpacity
+                  key={step}
+                  style={[styles.optionChip, styles.selectedOptionChip, styles.stepChip]}
+                  onPress={() => removeChallengeStep(step)}
+                >
+                  <Text style={[styles.optionChipText, styles.selectedOptionChipText]}>
+                    {index + 2}. {getChallenge(step).name}
+                  </Text>
+                  <Feather name="x" size={14} color="#fff" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {availableSteps.length > 0 && (
+            <View style={[styles.optionRow, styles.stepsRow]}>
+              {availableSteps.map(challenge => (
+                <TouchableOpacity
+                  key={challenge.mode}
+                  style={[styles.optionChip, styles.stepChip]}
+                  onPress={() => addChallengeStep(challenge.mode)}
+                >
+                  <Feather name="plus" size={14} color="#555" />
+                  <Text style={styles.optionChipText}>{challenge.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          
+          {/* Quiz settings */}
+          {usesMode(AlarmMode.QUIZ) && (
+            <View style={styles.quizSettings}>
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>quiz difficulty</Text>
+              <View style={styles.optionRow}>
+                {QUIZ_DIFFICULTIES.map(level => (
+                  <TouchableOpacity
+                    key={level.id}
+                    style={[
+                      styles.optionChip,
+                      quizDifficulty === level.id && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setQuizDifficulty(level.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        quizDifficulty === level.id && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {level.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.challengeDescription}>
+                {QUIZ_DIFFICULTIES.find(level => level.id === quizDifficulty)?.description}
+              </Text>
+              
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>correct in a row</Text>
+              <View style={styles.optionRow}>
+                {QUIZ_STREAK_OPTIONS.map(count => (
+                  <TouchableOpacity
+                    key={count}
+                    style={[
+                      styles.optionChip,
+                      quizStreak === count && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setQuizStreak(count)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        quizStreak === count && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {count}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>question packs</Text>
+              {quizPacks.length === 0 ? (
+                <Text style={styles.challengeDescription}>
+                  Import vocabulary, trivia or other questions to mix in with the math.
+                </Text>
+              ) : (
+                <View style={styles.optionRow}>
+                  {quizPacks.map(pack => (
+                    <TouchableOpacity
+                      key={pack.id}
+                      style={[
+                        styles.optionChip,
+                        quizPackIds.includes(pack.id) && styles.selectedOptionChip
+                      ]}
+                      onPress={() => toggleQuizPack(pack.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionChipText,
+                          quizPackIds.includes(pack.id) && styles.selectedOptionChipText
+                        ]}
+                      >
+                        {pack.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              <TouchableOpacity
+                style={styles.manageLinkButton}
+                onPress={() => navigation.navigate('QuizPacks')}
+              >
+                <Feather name="book-open" size={16} color="#2E7D87" />
+                <Text style={styles.manageLinkText}>Manage question packs</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          
+          {/* Find button settings */}
+          {usesMode(AlarmMode.TINY_BUTTON) && (
+            <View style={styles.quizSettings}>
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>find button difficulty</Text>
+              <View style={styles.optionRow}>
+                {FIND_BUTTON_DIFFICULTIES.map(level => (
+                  <TouchableOpacity
+                    key={level.id}
+                    style={[
+                      styles.optionChip,
+                      findButtonDifficulty === level.id && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setFindButtonDifficulty(level.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        findButtonDifficulty === level.id && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {level.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.challengeDescription}>
+                {FIND_BUTTON_DIFFICULTIES.find(level => level.id === findButtonDifficulty)?.description}
+              </Text>
+            </View>
+          )}
+          
+          {/* Captcha settings */}
+          {usesMode(AlarmMode.CAPTCHA) && (
+            <View style={styles.quizSettings}>
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>captcha difficulty</Text>
+              <View style={styles.optionRow}>
+                {CAPTCHA_DIFFICULTIES.map(level => (
+                  <TouchableOpacity
+                    key={level.id}
+                    style={[
+                      styles.optionChip,
+                      captchaDifficulty === level.id && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setCaptchaDifficulty(level.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        captchaDifficulty === level.id && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {level.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.challengeDescription}>
+                {CAPTCHA_DIFFICULTIES.find(level => level.id === captchaDifficulty)?.description}
+              </Text>
+              
+              <View style={styles.settingToggleRow}>
+                <View style={styles.challengeTextContainer}>
+                  <Text style={styles.challengeTitle}>Audio captcha</Text>
+                  <Text style={styles.challengeDescription}>Offer a spoken version of the characters</Text>
+                </View>
+                <Switch
+                  value={captchaAudio}
+                  onValueChange={setCaptchaAudio}
+                  trackColor={{ false: '#eee', true: '#2E7D87' }}
+                  thumbColor="#fff"
+                  ios_backgroundColor="#eee"
+                />
+              </View>
+            </View>
+          )}
+          
+          {/* Memory settings */}
+          {usesMode(AlarmMode.MEMORY) && (
+            <View style={styles.quizSettings}>
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>sequence length</Text>
+              <View style={styles.optionRow}>
+                {MEMORY_LENGTH_OPTIONS.map(length => (
+                  <TouchableOpacity
+                    key={length}
+                    style={[
+                      styles.optionChip,
+                      memoryLength === length && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setMemoryLength(length)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        memoryLength === length && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {length}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>flash speed</Text>
+              <View style={styles.optionRow}>
+                {MEMORY_SPEEDS.map(speed => (
+                  <TouchableOpacity
+                    key={speed.id}
+                    style={[
+                      styles.optionChip,
+                      memorySpeed === speed.id && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setMemorySpeed(speed.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        memorySpeed === speed.id && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {speed.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.challengeDescription}>
+                {MEMORY_SPEEDS.find(speed => speed.id === memorySpeed)?.description}
+              </Text>
+              
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>symbols</Text>
+              <View style={styles.optionRow}>
+                {MEMORY_SYMBOL_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[
+                      styles.optionChip,
+                      memorySymbols === option.id && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setMemorySymbols(option.id)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        memorySymbols === option.id && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+          
+          {/* Typing settings */}
+          {usesMode(AlarmMode.TYPING) && (
+            <View style={styles.quizSettings}>
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>minimum length</Text>
+              <View style={styles.optionRow}>
+                {TYPING_LENGTH_OPTIONS.map(length => (
+                  <TouchableOpacity
+                    key={length}
+                    style={[
+                      styles.optionChip,
+                      typingMinLength === length && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setTypingMinLength(length)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        typingMinLength === length && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {length} chars
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>minimum accuracy</Text>
+              <View style={styles.optionRow}>
+                {TYPING_ACCURACY_OPTIONS.map(accuracy => (
+                  <TouchableOpacity
+                    key={accuracy}
+                    style={[
+                      styles.optionChip,
+                      typingMinAccuracy === accuracy && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setTypingMinAccuracy(accuracy)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        typingMinAccuracy === accuracy && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {accuracy === 0 ? 'Off' : `${accuracy}%`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={[styles.sectionTitle, styles.subSectionTitle]}>minimum speed</Text>
+              <View style={styles.optionRow}>
+                {TYPING_WPM_OPTIONS.map(wpm => (
+                  <TouchableOpacity
+                    key={wpm}
+                    style={[
+                      styles.optionChip,
+                      typingMinWpm === wpm && styles.selectedOptionChip
+                    ]}
+                    onPress={() => setTypingMinWpm(wpm)}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        typingMinWpm === wpm && styles.selectedOptionChipText
+                      ]}
+                    >
+                      {wpm === 0 ? 'Off' : `${wpm} wpm`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.challengeDescription}>
+                Mistakes count against accuracy even after they're fixed.
+              </Text>
+              <TouchableOpacity
+                style={styles.manageLinkButton}
+                onPress={() => navigation.navigate('TypingPassages')}
+              >
+                <Feather name="edit-3" size={16} color="#2E7D87" />
+                <Text style={styles.manageLinkText}>Edit passages</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          
+          {/* Linked codes when editing a QR code or barcode alarm */}
+          {hasLinkedCodes && (
+            <View style={styles.qrCodeRow}>
+              <Feather name={scanMode === AlarmMode.BARCODE ? 'shopping-bag' : 'grid'} size={16} color="#2E7D87" />
+              <Text style={styles.qrCodeText}>
+                {rescanQRCode
+                  ? 'New codes will be chosen on save'
+                  : `Linked to ${qrCodeNames.join(qrCodeOrder === 'ordered' ? ' → ' : ', ')}`}
+              </Text>
+              <TouchableOpacity onPress={() => setRescanQRCode(!rescanQRCode)}>
+                <Text style={styles.qrCodeAction}>{rescanQRCode ? 'Keep' : 'Change'}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {isScanMode && (
+            <TouchableOpacity
+              style={styles.manageLinkButton}
+              onPress={() => navigation.navigate('QRLibrary')}
+            >
+              <Feather name="grid" size={16} color="#2E7D87" />
+              <Text style={styles.manageLinkText}>Manage saved codes</Text>
+            </TouchableOpacity>
+          )}
         </View>
         
         {/* Active Toggle */}
@@ -440,6 +1257,31 @@ const styles = StyleSheet.create({
   selectedDayText: {
     color: '#fff',
   },
+  subSectionTitle: {
+    marginTop: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  selectedOptionChip: {
+    backgroundColor: '#2E7D87',
+  },
+  optionChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#555',
+  },
+  selectedOptionChipText: {
+    color: '#fff',
+  },
   challengeContainer: {
     gap: 8,
   },
@@ -506,6 +1348,84 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quizSettings: {
+    marginBottom: 8,
+  },
+  stepsDescription: {
+    marginBottom: 8,
+  },
+  stepsRow: {
+    marginBottom: 8,
+  },
+  stepChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  settingToggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  qrCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#f3f8f9',
+  },
+  qrCodeText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  qrCodeAction: {
+    fontSize: 14,
+    color: '#2E7D87',
+    fontWeight: '500',
+  },
+  previewButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  importSoundButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#2E7D87',
+    borderStyle: 'dashed',
+  },
+  importSoundText: {
+    fontSize: 14,
+    color: '#2E7D87',
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  manageLinkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  manageLinkText: {
+    fontSize: 14,
+    color: '#2E7D87',
+    fontWeight: '500',
+    marginLeft: 8,
+  },
 });
 
 export default CreateAlarmScreen;
\ No newline at end of file
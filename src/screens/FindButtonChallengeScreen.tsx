@@ -6,50 +6,60 @@ import {
   TouchableOpacity,
   Dimensions,
   BackHandler,
-  Vibration,
-  Platform
+  Vibration
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
-import { Audio } from 'expo-av';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
-import * as Notifications from 'expo-notifications';
+import { cancelSnooze, dismissAlarmNotifications } from '../services/alarmService';
+import { recordChallengeAttempt } from '../services/ringingSessionService';
+import { AlarmAudioService } from '../services/alarmAudioService';
+import { getChallengeStepLabel, goToNextChallengeStep } from '../services/challengeRegistry';
+import {
+  getFindButtonSettings,
+  getDecoyLabels,
+  MAX_PENALTY_ROUNDS,
+  REAL_BUTTON_LABEL
+} from '../services/findButtonDifficulty';
 
 type FindButtonChallengeRouteProp = RouteProp<RootStackParamList, 'FindButtonChallenge'>;
 type FindButtonChallengeNavigationProp = StackNavigationProp<RootStackParamList, 'FindButtonChallenge'>;
 
 const { width, height } = Dimensions.get('window');
 
-// Medium difficulty settings
-const MEDIUM_DIFFICULTY = {
-  buttonSize: 40,
-  fakeButtons: 5,
-};
-
 interface Position {
   top: number;
   left: number;
 }
 
+interface DecoyButton {
+  position: Position;
+  label: string;
+  lookalike: boolean;
+}
+
 const FindButtonChallengeScreen = () => {
   const route = useRoute<FindButtonChallengeRouteProp>();
   const navigation = useNavigation<FindButtonChallengeNavigationProp>();
-  const { alarm } = route.params;
-  
-  // Sound object for alarm
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
+  const { alarm, step = 0 } = route.params;
+  const stepLabel = getChallengeStepLabel(alarm, step);
   
   // Current time displayed
   const [currentTime, setCurrentTime] = useState('');
   
-  // Always use medium difficulty
-  const difficulty = MEDIUM_DIFFICULTY;
+  // Preset chosen for this alarm
+  const difficulty = getFindButtonSettings(alarm.findButtonDifficulty);
   
   // Button positions
   const [realButtonPosition, setRealButtonPosition] = useState<Position>({ top: 0, left: 0 });
-  const [fakeButtonPositions, setFakeButtonPositions] = useState<Position[]>([]);
+  const [decoyButtons, setDecoyButtons] = useState<DecoyButton[]>([]);
+  
+  // Rounds cleared so far, and rounds needed - decoy taps add penalty rounds
+  const [roundsCleared, setRoundsCleared] = useState(0);
+  const [penaltyRounds, setPenaltyRounds] = useState(0);
+  const totalRounds = difficulty.rounds + penaltyRounds;
   
   // If button is found
   const [buttonFound, setButtonFound] = useState(false);
@@ -80,46 +90,45 @@ const FindButtonChallengeScreen = () => {
     return { top: randomTop, left: randomLeft };
   };
 
-  // Generate positions for all buttons
-  const generateButtonPositions = () => {
-    // Fixed button dimensions
-    const buttonWidth = 90;
-    const buttonHeight = 40;
+  // Move all buttons to new positions, keeping the decoy labels
+  const moveButtons = () => {
+    const { buttonWidth, buttonHeight } = difficulty;
     
-    // Generate real button position
-    const realPosition = generateRandomPosition(buttonWidth, buttonHeight);
-    setRealButtonPosition(realPosition);
+    setRealButtonPosition(generateRandomPosition(buttonWidth, buttonHeight));
+    setDecoyButtons(current => current.map(decoy => ({
+      ...decoy,
+      position: generateRandomPosition(buttonWidth, buttonHeight),
+    })));
+  };
+
+  // Lay out a new round with fresh decoys
+  const startRound = () => {
+    const { buttonWidth, buttonHeight } = difficulty;
     
-    // Generate fake button positions
-    const fakePositions: Position[] = [];
-    for (let i = 0; i < difficulty.fakeButtons; i++) {
-      fakePositions.push(generateRandomPosition(buttonWidth, buttonHeight));
-    }
-    setFakeButtonPositions(fakePositions);
+    setRealButtonPosition(generateRandomPosition(buttonWidth, buttonHeight));
+    setDecoyButtons(getDecoyLabels(difficulty).map((label, index) => ({
+      position: generateRandomPosition(buttonWidth, buttonHeight),
+      label,
+      lookalike: index < difficulty.lookalikes,
+    })));
   };
 
   // Handle successful dismiss
   const handleDismiss = () => {
-    // Make sure to stop sound completely
-    if (sound) {
-      sound.stopAsync().then(() => {
-        sound.unloadAsync();
-      }).catch(error => {
-        console.error('Error stopping sound:', error);
-      });
-    }
-    
-    // Cancel any ongoing vibrations
-    Vibration.cancel();
+    // Chained challenges move on to the next step and keep ringing
+    if (goToNextChallengeStep(navigation, alarm, step)) return;
+
+    // Stop the alarm sound and vibration
+    AlarmAudioService.stop();
     
     // Set state to show success message
     setButtonFound(true);
     
+    // Alarm is dismissed - drop any pending snooze
+    cancelSnooze(alarm.id);
+
     // Important: Cancel the alarm notification that triggered this screen
-    if (alarm && alarm.notificationId) {
-      Notifications.dismissNotificationAsync(alarm.notificationId)
-        .catch(error => console.error('Error dismissing notification:', error));
-    }
+    dismissAlarmNotifications(alarm);
     
     // Wait a moment to show success message before navigating back
     setTimeout(() => {
@@ -127,56 +136,33 @@ const FindButtonChallengeScreen = () => {
     }, 1000);
   };
 
-  // Handle fake button press - regenerate positions
-  const handleFakeButtonPress = () => {
-    generateButtonPositions();
-    Vibration.vibrate(200);
+  // Handle real button press - dismiss once every round is cleared
+  const handleRealButtonPress = () => {
+    const cleared = roundsCleared + 1;
+    if (cleared >= totalRounds) {
+      handleDismiss();
+      return;
+    }
+    
+    setRoundsCleared(cleared);
+    startRound();
   };
 
-  // Load and play alarm sound
-  const playAlarmSound = async () => {
-    try {
-      const { sound } = await Audio.Sound.createAsync(
-        require('../../assets/alarm-sound.mp3'),
-        { shouldPlay: true, isLooping: true, volume: 1.0 }
-      );
-      setSound(sound);
-    } catch (error) {
-      console.error('Error playing alarm sound:', error);
-    }
+  // Handle decoy press - add a penalty round and start the round again
+  const handleDecoyPress = () => {
+    recordChallengeAttempt(alarm.id);
+    setPenaltyRounds(current => Math.min(current + 1, MAX_PENALTY_ROUNDS));
+    startRound();
+    Vibration.vibrate(200);
   };
 
   // Initialize alarm on component mount
   useEffect(() => {
-    // Setup audio
-    Audio.setAudioModeAsync({
-      allowsRecordingIOS: false,
-      staysActiveInBackground: true,
-      interruptionModeIOS: Audio.INTERRUPTION_MODE_IOS_DO_NOT_MIX,
-      playsInSilentModeIOS: true,
-      shouldDuckAndroid: true,
-      interruptionModeAndroid: Audio.INTERRUPTION_MODE_ANDROID_DO_NOT_MIX,
-      playThroughEarpieceAndroid: false,
-    });
-    
-    // Play sound
-    playAlarmSound();
-    
-    // Start vibration pattern
-    if (Platform.OS === 'android') {
-      // Android can use complex patterns (wait, vibrate, wait, vibrate, etc.)
-      Vibration.vibrate([500, 1000, 500, 1000], true);
-    } else {
-      // iOS needs a simpler approach
-      const vibrateInterval = setInterval(() => {
-        Vibration.vibrate();
-      }, 1500);
-      
-      return () => clearInterval(vibrateInterval);
-    }
+    // Keep ringing - the sound carries over from the ringing screen
+    AlarmAudioService.start(alarm);
     
-    // Generate initial button positions
-    generateButtonPositions();
+    // Lay out the first round
+    startRound();
     
     // Update current time
     const timeInterval = setInterval(() => {
@@ -191,21 +177,36 @@ const FindButtonChallengeScreen = () => {
     
     // Cleanup function
     return () => {
-      if (sound) {
-        sound.unloadAsync();
-      }
-      Vibration.cancel();
       clearInterval(timeInterval);
       backHandler.remove();
     };
   }, []);
 
+  // Keep the buttons moving on presets that ask for it
+  useEffect(() => {
+    if (!difficulty.moveInterval || buttonFound) return;
+    
+    const moveInterval = setInterval(moveButtons, difficulty.moveInterval);
+    return () => clearInterval(moveInterval);
+  }, [buttonFound]);
+
+  // Size of every button for this preset
+  const buttonSizeStyle = {
+    width: difficulty.buttonWidth,
+    height: difficulty.buttonHeight,
+    borderRadius: difficulty.buttonHeight / 2,
+  };
+  const buttonTextStyle = {
+    fontSize: Math.max(9, Math.round(difficulty.buttonHeight * 0.3)),
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Alarm Information */}
       <View style={styles.alarmInfo}>
         <Text style={styles.timeText}>{currentTime}</Text>
         <Text style={styles.alarmLabel}>{alarm?.label || 'Alarm'}</Text>
+        {stepLabel && <Text style={styles.stepText}>{stepLabel}</Text>}
       </View>
       
       {/* Challenge Instructions */}
@@ -213,6 +214,12 @@ const FindButtonChallengeScreen = () => {
         <Text style={styles.instructionsText}>
           Find and tap the correct snooze button
         </Text>
+        {totalRounds > 1 && !buttonFound && (
+          <Text style={styles.roundText}>
+            Round {roundsCleared + 1} of {totalRounds}
+            {penaltyRounds > 0 ? ` (${penaltyRounds} penalty)` : ''}
+          </Text>
+        )}
       </View>
       
       {/* Success Message - only shown when button is found */}
@@ -230,30 +237,35 @@ const FindButtonChallengeScreen = () => {
           <TouchableOpacity
             style={[
               styles.snoozeButton,
+              buttonSizeStyle,
               { 
                 top: realButtonPosition.top,
                 left: realButtonPosition.left,
               }
             ]}
-            onPress={handleDismiss}
+            onPress={handleRealButtonPress}
           >
-            <Text style={styles.snoozeText}>SNOOZE</Text>
+            <Text style={[styles.snoozeText, buttonTextStyle]}>{REAL_BUTTON_LABEL}</Text>
           </TouchableOpacity>
           
-          {/* Fake buttons */}
-          {fakeButtonPositions.map((position, index) => (
+          {/* Decoy buttons - lookalikes share the real button's style */}
+          {decoyButtons.map((decoy, index) => (
             <TouchableOpacity
               key={index}
               style={[
                 styles.snoozeButton,
+                buttonSizeStyle,
+                !decoy.lookalike && styles.plainDecoyButton,
                 { 
-                  top: position.top,
-                  left: position.left,
+                  top: decoy.position.top,
+                  left: decoy.position.left,
                 }
               ]}
-              onPress={handleFakeButtonPress}
+              onPress={handleDecoyPress}
             >
-              <Text style={styles.snoozeText}>SNOOZE</Text>
+              <Text style={[styles.snoozeText, buttonTextStyle, !decoy.lookalike && styles.plainDecoyText]}>
+                {decoy.label}
+              </Text>
             </TouchableOpacity>
           ))}
         </View>
@@ -281,6 +293,12 @@ const styles = StyleSheet.create({
     color: '#aaa',
     marginTop: 8,
   },
+  stepText: {
+    fontSize: 16,
+    color: '#2E7D87',
+    fontWeight: '600',
+    marginTop: 8,
+  },
   instructionsContainer: {
     marginTop: 40,
     paddingHorizontal: 30,
@@ -291,6 +309,11 @@ const styles = StyleSheet.create({
     color: '#fff',
     textAlign: 'center',
   },
+  roundText: {
+    fontSize: 14,
+    color: '#aaa',
+    marginTop: 8,
+  },
   buttonsContainer: {
     flex: 1,
     position: 'relative',
@@ -315,6 +338,14 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     letterSpacing: 1,
   },
+  plainDecoyButton: {
+    backgroundColor: '#1e1e1e',
+    borderWidth: 1,
+    borderColor: '#3a3a3a',
+  },
+  plainDecoyText: {
+    color: '#888',
+  },
   successContainer: {
     flex: 1,
     justifyContent: 'center',
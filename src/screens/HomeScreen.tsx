@@ -15,11 +15,15 @@ import {
 import { Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
-import { scheduleAlarmNotification, cancelAlarmNotification, manualCheckForAlarms } from '../services/alarmService';
+import { scheduleAlarmNotification, cancelAlarmNotification, manualCheckForAlarms, cancelSnooze } from '../services/alarmService';
+import { getSnoozeStates, SnoozeState } from '../services/snoozeService';
+import { AlarmRepository } from '../services/alarmRepository';
+import { getChallenge, getChallengeStepsName, getIncompleteSetup } from '../services/challengeRegistry';
+import { subscribeToMissedAlarms, clearMissedAlarms, MissedAlarm } from '../services/missedAlarmService';
+import { Alarm } from '../types';
 import { isAndroid } from '../utils/androidSpecific';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Home'>;
@@ -60,42 +64,58 @@ const formatDays = (days: number[]) => {
 	return days.map(day => dayLabels[day]).join(', ');
 };
 
+// Format the time a snoozed alarm rings again, e.g. 7:09
+const formatSnoozeTime = (timestamp: number) => {
+	const date = new Date(timestamp);
+	const hours = date.getHours() % 12 || 12;
+	const minutes = date.getMinutes();
+	return `${hours}:${minutes < 10 ? `0${minutes}` : minutes}`;
+};
+
+// Format when a missed alarm should have rung, e.g. Mon 7:00 AM
+const formatMissedTime = (timestamp: number) => {
+	const date = new Date(timestamp);
+	const dayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+	const hours = date.getHours();
+	const minutes = date.getMinutes();
+	const ampm = hours >= 12 ? 'PM' : 'AM';
+	return `${dayLabels[date.getDay()]} ${hours % 12 || 12}:${minutes < 10 ? `0${minutes}` : minutes} ${ampm}`;
+};
+
 const HomeScreen = () => {
 	const navigation = useNavigation<HomeScreenNavigationProp>();
-	const [alarms, setAlarms] = useState<any[]>([]);
+	const [alarms, setAlarms] = useState<Alarm[]>([]);
+	const [missedAlarms, setMissedAlarms] = useState<MissedAlarm[]>([]);
+	const [snoozeStates, setSnoozeStates] = useState<Record<string, SnoozeState>>({});
 	const [isLoading, setIsLoading] = useState(true);
 	const fadeAnim = useState(new Animated.Value(0))[0];
 	const slideAnim = useState(new Animated.Value(30))[0];
 
-	// Load alarms from storage
-	const loadAlarms = async () => {
+	// Load snooze badges - snoozes change outside this screen, so refresh them on focus
+	const loadSnoozeStates = async () => {
 		try {
-			setIsLoading(true);
-			const alarmsJson = await AsyncStorage.getItem('alarms');
-			if (alarmsJson) {
-				setAlarms(JSON.parse(alarmsJson));
-			}
-			
-			// Animate content in
-			Animated.parallel([
-				Animated.timing(fadeAnim, {
-					toValue: 1,
-					duration: 600,
-					useNativeDriver: true,
-				}),
-				Animated.timing(slideAnim, {
-					toValue: 0,
-					duration: 600,
-					useNativeDriver: true,
-				})
-			]).start();
+			setSnoozeStates(await getSnoozeStates());
 		} catch (error) {
-			console.error('Error loading alarms:', error);
-		} finally {
-			setIsLoading(false);
+			console.error('Error loading snooze states:', error);
 		}
 	};
 
+	// Animate content in once alarms have loaded
+	const animateIn = () => {
+		Animated.parallel([
+			Animated.timing(fadeAnim, {
+				toValue: 1,
+				duration: 600,
+				useNativeDriver: true,
+			}),
+			Animated.timing(slideAnim, {
+				toValue: 0,
+				duration: 600,
+				useNativeDriver: true,
+			})
+		]).start();
+	};
+
 	// Toggle alarm active state
 	const toggleAlarm = async (id: string) => {
 		try {
@@ -104,18 +124,17 @@ const HomeScreen = () => {
 
 			const newActiveState = !alarm.isActive;
 
-			// Update alarm in state
-			const updatedAlarms = alarms.map(a =>
-				a.id === id
-					? { ...a, isActive: newActiveState }
-					: a
-			);
+			// Alarms whose setup was never finished can't ring yet - the setup screen turns them on
+			const setup = newActiveState ? getIncompleteSetup(alarm) : null;
+			if (setup) {
+				navigation.navigate(setup.route, { alarmId: id, activate: true, ...setup.params });
+				return;
+			}
 
-			setAlarms(updatedAlarms);
-			await AsyncStorage.setItem('alarms', JSON.stringify(updatedAlarms));
+			// Update alarm in storage - the subscription refreshes the list
+			const updatedAlarm = await AlarmRepository.update(id, { isActive: newActiveState });
 
 			// Schedule or cancel alarm notification
-			const updatedAlarm = updatedAlarms.find(a => a.id === id);
 			if (updatedAlarm) {
 				if (newActiveState) {
 					// Alarm was turned on
@@ -123,6 +142,8 @@ const HomeScreen = () => {
 				} else {
 					// Alarm was turned off
 					await cancelAlarmNotification(updatedAlarm);
+					await cancelSnooze(id);
+					loadSnoozeStates();
 				}
 			}
 		} catch (error) {
@@ -153,18 +174,15 @@ const HomeScreen = () => {
 	// Delete alarm
 	const deleteAlarm = async (id: string) => {
 		try {
-			// Get the alarm before removing it
-			const alarmToDelete = alarms.find(alarm => alarm.id === id);
-
-			// Remove from state and storage
-			const updatedAlarms = alarms.filter(alarm => alarm.id !== id);
-			setAlarms(updatedAlarms);
-			await AsyncStorage.setItem('alarms', JSON.stringify(updatedAlarms));
+			// Remove from storage - the subscription refreshes the list
+			const alarmToDelete = await AlarmRepository.delete(id);
 
 			// Cancel any scheduled notifications
 			if (alarmToDelete && alarmToDelete.isActive) {
 				await cancelAlarmNotification(alarmToDelete);
 			}
+			await cancelSnooze(id);
+			loadSnoozeStates();
 		} catch (error) {
 			console.error('Error deleting alarm:', error);
 			Alert.alert('Error', 'Failed to delete alarm. Please try again.');
@@ -172,11 +190,7 @@ const HomeScreen = () => {
 	};
 
 	// Get mode name
-	const getModeName = (mode: string) => {
-		if (mode === 'TINY_BUTTON') return 'Find Button';
-		if (mode === 'QUIZ') return 'Solve Quiz';
-		return mode;
-	};
+	const getModeName = (alarm: Alarm) => getChallengeStepsName(alarm);
 
 	// Navigate to test screen (triple tap on header)
 	const [tapCount, setTapCount] = useState(0);
@@ -196,12 +210,32 @@ const HomeScreen = () => {
 		});
 	};
 
-	// Load alarms when the screen is focused
+	// Keep the alarm list in sync with storage
+	useEffect(() => {
+		const unsubscribe = AlarmRepository.subscribe(updatedAlarms => {
+			setAlarms(updatedAlarms);
+			setIsLoading(false);
+		});
+
+		return unsubscribe;
+	}, []);
+
+	// Show alarms the catch-up pass found were missed
+	useEffect(() => {
+		return subscribeToMissedAlarms(setMissedAlarms);
+	}, []);
+
+	useEffect(() => {
+		if (!isLoading) {
+			animateIn();
+		}
+	}, [isLoading]);
+
+	// Refresh snooze badges when the screen is focused
 	useFocusEffect(
 		React.useCallback(() => {
-			loadAlarms();
+			loadSnoozeStates();
 		}, [])
-
 	);
 
 	useEffect(() => {
@@ -234,6 +268,9 @@ const HomeScreen = () => {
 							<Feather name="smartphone" size={22} color="#2E7D87" />
 						</TouchableOpacity>
 					)}
+					<TouchableOpacity style={styles.backupButton} onPress={() => navigation.navigate('Backup')}>
+						<Feather name="archive" size={22} color="#2E7D87" />
+					</TouchableOpacity>
 					<TouchableOpacity style={styles.analyticsButton} onPress={() => navigation.navigate('Analytics')}>
 						<Feather name="bar-chart-2" size={24} color="#2E7D87" />
 					</TouchableOpacity>
@@ -264,6 +301,25 @@ const HomeScreen = () => {
 				</TouchableOpacity>
 			</Animated.View>
 
+			{missedAlarms.length > 0 && (
+				<View style={styles.missedBanner}>
+					<Feather name="alert-triangle" size={20} color="#B3261E" />
+					<View style={styles.missedTextContainer}>
+						<Text style={styles.missedTitle}>
+							{missedAlarms.length === 1 ? 'Missed alarm' : `${missedAlarms.length} missed alarms`}
+						</Text>
+						{missedAlarms.slice(0, 3).map(missed => (
+							<Text key={`${missed.alarmId}-${missed.scheduledTime}`} style={styles.missedText}>
+								{missed.label} · {formatMissedTime(missed.scheduledTime)}
+							</Text>
+						))}
+					</View>
+					<TouchableOpacity onPress={clearMissedAlarms} style={styles.missedDismissButton}>
+						<Feather name="x" size={18} color="#B3261E" />
+					</TouchableOpacity>
+				</View>
+			)}
+
 			{isLoading ? (
 				<View style={styles.loadingContainer}>
 					<ActivityIndicator size="large" color="#2E7D87" />
@@ -308,7 +364,7 @@ const HomeScreen = () => {
 										item.isActive && styles.alarmCardActive
 									]}
 									activeOpacity={0.9}
-									onPress={() => {}}
+									onPress={() => navigation.navigate('CreateAlarm', { alarmId: item.id })}
 								>
 									<View style={styles.alarmMainInfo}>
 										<View>
@@ -342,11 +398,20 @@ const HomeScreen = () => {
 										{item.isActive && (
 											<View style={styles.modeContainer}>
 												<Feather
-													name={item.mode === 'TINY_BUTTON' ? 'target' : 'help-circle'}
+													name={getChallenge(item.mode).icon}
 													size={14}
 													color="#333"
 												/>
-												<Text style={styles.modeText}>{getModeName(item.mode)}</Text>
+												<Text style={styles.modeText}>{getModeName(item)}</Text>
+											</View>
+										)}
+
+										{snoozeStates[item.id]?.snoozedUntil && (
+											<View style={styles.snoozeBadge}>
+												<Feather name="moon" size={14} color="#B26A00" />
+												<Text style={styles.snoozeBadgeText}>
+													snoozed until {formatSnoozeTime(snoozeStates[item.id].snoozedUntil!)}
+												</Text>
 											</View>
 										)}
 									</View>
@@ -421,6 +486,9 @@ const styles = StyleSheet.create({
 	androidSettingsButton: {
 		marginRight: 16,
 	},
+	backupButton: {
+		marginRight: 16,
+	},
 	title: {
 		fontSize: 28,
 		fontWeight: 'bold',
@@ -546,6 +614,21 @@ const styles = StyleSheet.create({
 		marginLeft: 6,
 		fontWeight: '500',
 	},
+	snoozeBadge: {
+		backgroundColor: '#FFF4E0',
+		paddingHorizontal: 12,
+		paddingVertical: 6,
+		borderRadius: 16,
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginLeft: 8,
+	},
+	snoozeBadgeText: {
+		fontSize: 13,
+		color: '#B26A00',
+		marginLeft: 6,
+		fontWeight: '500',
+	},
 	addButton: {
 		position: 'absolute',
 		right: 24,
@@ -562,6 +645,33 @@ const styles = StyleSheet.create({
 		shadowRadius: 8,
 		elevation: 5,
 	},
+	missedBanner: {
+		flexDirection: 'row',
+		alignItems: 'flex-start',
+		backgroundColor: '#FDECEA',
+		borderRadius: 16,
+		marginHorizontal: 16,
+		marginTop: 8,
+		padding: 14,
+	},
+	missedTextContainer: {
+		flex: 1,
+		marginLeft: 12,
+	},
+	missedTitle: {
+		fontSize: 15,
+		fontWeight: '600',
+		color: '#B3261E',
+		marginBottom: 4,
+	},
+	missedText: {
+		fontSize: 13,
+		color: '#7A2E28',
+		marginTop: 2,
+	},
+	missedDismissButton: {
+		padding: 4,
+	},
 	analyticsCardContainer: {
 		paddingHorizontal: 16,
 		marginTop: 16,
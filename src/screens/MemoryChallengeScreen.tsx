@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  BackHandler,
+  Vibration
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../../App';
+import { cancelSnooze, dismissAlarmNotifications } from '../services/alarmService';
+import { recordChallengeAttempt } from '../services/ringingSessionService';
+import { AlarmAudioService } from '../services/alarmAudioService';
+import { getChallengeStepLabel, goToNextChallengeStep } from '../services/challengeRegistry';
+import {
+  DEFAULT_MEMORY_LENGTH,
+  getMemoryTiles,
+  getMemorySpeedSettings,
+  getStartingLength,
+  generateMemorySequence,
+  extendMemorySequence
+} from '../services/memorySequence';
+
+type MemoryChallengeRouteProp = RouteProp<RootStackParamList, 'MemoryChallenge'>;
+type MemoryChallengeNavigationProp = StackNavigationProp<RootStackParamList, 'MemoryChallenge'>;
+
+// Watching the sequence, repeating it, or between rounds after a mistake or a cleared round
+type MemoryPhase = 'showing' | 'input' | 'wrong' | 'cleared' | 'done';
+
+// Pause before a sequence starts flashing
+const LEAD_IN_MS = 700;
+
+// How long a tapped tile lights up
+const TAP_FLASH_MS = 150;
+
+const MemoryChallengeScreen = () => {
+  const route = useRoute<MemoryChallengeRouteProp>();
+  const navigation = useNavigation<MemoryChallengeNavigationProp>();
+  const { alarm, step = 0 } = route.params;
+  const stepLabel = getChallengeStepLabel(alarm, step);
+
+  // Settings chosen for this alarm
+  const tiles = getMemoryTiles(alarm.memorySymbols);
+  const speed = getMemorySpeedSettings(alarm.memorySpeed);
+  const targetLength = alarm.memoryLength ?? DEFAULT_MEMORY_LENGTH;
+
+  // Current time displayed
+  const [currentTime, setCurrentTime] = useState('');
+
+  // Sequence state
+  const [sequence, setSequence] = useState<number[]>([]);
+  const [phase, setPhase] = useState<MemoryPhase>('showing');
+  const [inputIndex, setInputIndex] = useState(0);
+  const [litTile, setLitTile] = useState<number | null>(null);
+
+  // Pending flashes and round changes, cleared when the screen goes away
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const later = (callback: () => void, delay: number) => {
+    timersRef.current.push(setTimeout(callback, delay));
+  };
+
+  const clearTimers = () => {
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current = [];
+  };
+
+  // Format current time
+  const getCurrentTime = () => {
+    const now = new Date();
+    const hours = now.getHours();
+    const minutes = now.getMinutes();
+    const ampm = hours >= 12 ? 'PM' : 'AM';
+    const formattedHours = hours % 12 || 12;
+    const formattedMinutes = minutes < 10 ? `0${minutes}` : minutes;
+    return `${formattedHours}:${formattedMinutes} ${ampm}`;
+  };
+
+  // Flash a sequence one tile at a time, then hand over to the user
+  const playSequence = (nextSequence: number[]) => {
+    clearTimers();
+    setSequence(nextSequence);
+    setInputIndex(0);
+    setLitTile(null);
+    setPhase('showing');
+
+    const stepMs = speed.flashMs + speed.gapMs;
+    nextSequence.forEach((tile, index) => {
+      later(() => setLitTile(tile), LEAD_IN_MS + index * stepMs);
+      later(() => setLitTile(null), LEAD_IN_MS + index * stepMs + speed.flashMs);
+    });
+    later(() => setPhase('input'), LEAD_IN_MS + nextSequence.length * stepMs);
+  };
+
+  // Start again from a short, fresh sequence
+  const startOver = () => {
+    playSequence(generateMemorySequence(getStartingLength(targetLength), tiles.length));
+  };
+
+  // Handle successful dismiss
+  const handleDismiss = () => {
+    // Chained challenges move on to the next step and keep ringing
+    if (goToNextChallengeStep(navigation, alarm, step)) return;
+
+    // Stop the alarm sound and vibration
+    AlarmAudioService.stop();
+
+    setPhase('done');
+
+    // Alarm is dismissed - drop any pending snooze
+    cancelSnooze(alarm.id);
+
+    // Important: Cancel the alarm notification that triggered this screen
+    dismissAlarmNotifications(alarm);
+
+    // Wait a moment to show success message before navigating back
+    setTimeout(() => {
+      navigation.navigate('Home');
+    }, 1500);
+  };
+
+  // Handle a tile tap - any mistake resets progress to the first round
+  const handleTilePress = (tile: number) => {
+    if (phase !== 'input') return;
+
+    setLitTile(tile);
+    later(() => setLitTile(current => (current === tile ? null : current)), TAP_FLASH_MS);
+
+    if (tile !== sequence[inputIndex]) {
+      // Wrong tile - vibrate, then start over with a new sequence
+      Vibration.vibrate(500);
+      recordChallengeAttempt(alarm.id);
+      setPhase('wrong');
+      later(startOver, 1500);
+      return;
+    }
+
+    const repeated = inputIndex + 1;
+    if (repeated < sequence.length) {
+      setInputIndex(repeated);
+      return;
+    }
+
+    // Whole sequence repeated - done at the target length, otherwise one tile longer
+    setInputIndex(repeated);
+    if (sequence.length >= targetLength) {
+      handleDismiss();
+      return;
+    }
+
+    setPhase('cleared');
+    later(() => playSequence(extendMemorySequence(sequence, tiles.length)), 1000);
+  };
+
+  // Initialize alarm on component mount
+  useEffect(() => {
+    // Keep ringing - the sound carries over from the ringing screen
+    AlarmAudioService.start(alarm);
+
+    // Flash the first sequence
+    startOver();
+
+    // Update current time
+    const timeInterval = setInterval(() => {
+      setCurrentTime(getCurrentTime());
+    }, 1000);
+
+    // Prevent back button from closing the screen
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => true);
+
+    // Update initial time
+    setCurrentTime(getCurrentTime());
+
+    // Cleanup function
+    return () => {
+      clearInterval(timeInterval);
+      clearTimers();
+      backHandler.remove();
+    };
+  }, []);
+
+  // Instructions for the current phase
+  const getInstructions = () => {
+    switch (phase) {
+      case 'showing':
+        return 'Watch the sequence...';
+      case 'input':
+        return `Repeat the sequence - ${inputIndex} of ${sequence.length}`;
+      case 'wrong':
+        return 'Wrong! Starting over with a new sequence...';
+      case 'cleared':
+        return 'Correct! One more this time...';
+      case 'done':
+        return 'Alarm dismissed!';
+    }
+  };
+
+  // Coloured tiles sit in a 2x2 square, digits in a 3x3 keypad
+  const columns = tiles.length > 4 ? 3 : 2;
+  const tileSize = columns === 3 ? 84 : 130;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Alarm Information */}
+      <View style={styles.alarmInfo}>
+        <Text style={styles.timeText}>{currentTime}</Text>
+        <Text style={styles.alarmLabel}>{alarm?.label || 'Alarm'}</Text>
+        {stepLabel && <Text style={styles.stepText}>{stepLabel}</Text>}
+      </View>
+
+      {/* Progress towards the target length */}
+      <View style={styles.progressContainer}>
+        {Array.from({ length: targetLength }).map((_, index) => (
+          <View
+            key={index}
+            style={[styles.progressDot, index < sequence.length && styles.progressDotFilled]}
+          />
+        ))}
+        <Text style={styles.progressText}>{sequence.length} / {targetLength} long</Text>
+      </View>
+
+      {/* Instructions */}
+      <Text
+        style={[
+          styles.instructionsText,
+          phase === 'wrong' && styles.wrongText,
+          (phase === 'cleared' || phase === 'done') && styles.correctText
+        ]}
+      >
+        {getInstructions()}
+      </Text>
+
+      {/* Success Message - only shown once the alarm is dismissed */}
+      {phase === 'done' ? (
+        <View style={styles.successContainer}>
+          <Feather name="check-circle" size={48} color="#2E7D87" />
+        </View>
+      ) : (
+        <View style={[styles.board, { width: columns * (tileSize + 12) }]}>
+          {tiles.map((tile, index) => (
+            <TouchableOpacity
+              key={index}
+              style={[
+                styles.tile,
+                {
+                  width: tileSize,
+                  height: tileSize,
+                  backgroundColor: litTile === index ? tile.litColor : tile.color,
+                },
+                litTile === index && styles.litTile
+              ]}
+              onPress={() => handleTilePress(index)}
+              disabled={phase !== 'input'}
+              activeOpacity={0.8}
+            >
+              {tile.label ? <Text style={styles.tileText}>{tile.label}</Text> : null}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  alarmInfo: {
+    alignItems: 'center',
+    marginTop: 60,
+    marginBottom: 32,
+  },
+  timeText: {
+    fontSize: 60,
+    fontWeight: '300',
+    color: '#fff',
+  },
+  alarmLabel: {
+    fontSize: 24,
+    color: '#aaa',
+    marginTop: 8,
+  },
+  stepText: {
+    fontSize: 16,
+    color: '#2E7D87',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  progressContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  progressDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginHorizontal: 4,
+    backgroundColor: '#2a2a2a',
+  },
+  progressDotFilled: {
+    backgroundColor: '#2E7D87',
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#aaa',
+    marginLeft: 8,
+  },
+  instructionsText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+    textAlign: 'center',
+    marginBottom: 24,
+    paddingHorizontal: 24,
+  },
+  wrongText: {
+    color: '#F44336',
+  },
+  correctText: {
+    color: '#4CAF50',
+  },
+  board: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignSelf: 'center',
+  },
+  tile: {
+    margin: 6,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  litTile: {
+    transform: [{ scale: 1.05 }],
+  },
+  tileText: {
+    fontSize: 32,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  successContainer: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+});
+
+export default MemoryChallengeScreen;
@@ -16,27 +16,52 @@ import { useNavigation, RouteProp, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
 import { CameraView, Camera, BarcodeScanningResult } from 'expo-camera';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Audio } from 'expo-av';
-import { Alarm } from '../types';
+import { QRCode } from '../types';
+import { cancelSnooze, dismissAlarmNotifications } from '../services/alarmService';
+import { recordChallengeAttempt } from '../services/ringingSessionService';
+import { AlarmAudioService } from '../services/alarmAudioService';
+import {
+  getChallenge,
+  getChallengeSteps,
+  getChallengeStepLabel,
+  goToNextChallengeStep,
+  replaceWithFallbackChallenge,
+  FALLBACK_CHALLENGE_MODE
+} from '../services/challengeRegistry';
+import { getQRCodes, getScanCodeKind, SCAN_CODE_KINDS } from '../services/qrCodeService';
+import { isAppQRPayload } from '../services/qrCodeGenerator';
 
 type QRCodeChallengeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'QRCodeChallenge'>;
 type QRCodeChallengeScreenRouteProp = RouteProp<RootStackParamList, 'QRCodeChallenge'>;
 
 const { width } = Dimensions.get('window');
 
+// The camera reports a code on every frame - the same code is only handled once in this window
+const RESCAN_COOLDOWN_MS = 3000;
+
 const QRCodeChallengeScreen = () => {
   const navigation = useNavigation<QRCodeChallengeScreenNavigationProp>();
   const route = useRoute<QRCodeChallengeScreenRouteProp>();
-  const { alarm } = route.params;
+  const { alarm, step = 0 } = route.params;
+  const stepLabel = getChallengeStepLabel(alarm, step);
   
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanned, setScanned] = useState(false);
-  const [targetQRData, setTargetQRData] = useState('');
-  const [targetQRName, setTargetQRName] = useState('');
+  const [targetCodes, setTargetCodes] = useState<QRCode[]>([]);
+  const [completedIds, setCompletedIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [attempts, setAttempts] = useState(0);
+  const lastScanRef = useRef({ data: '', at: 0 });
+  
+  // QR codes, or product barcodes for barcode alarms - chained alarms scan on one of their later steps
+  const codeKind = getScanCodeKind(getChallengeSteps(alarm)[step] ?? alarm.mode);
+  const isBarcode = codeKind === 'barcode';
+  const { name: codeName, barcodeTypes } = SCAN_CODE_KINDS[codeKind];
+  const codeTitle = isBarcode ? 'Barcode' : 'QR Code';
+  
+  const isOrdered = alarm.qrCodeOrder !== 'unordered';
+  const fallbackName = getChallenge(FALLBACK_CHALLENGE_MODE).name;
+  const nextCode = targetCodes.find(code => !completedIds.includes(code.id));
   
   // Animation values
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -86,29 +111,26 @@ const QRCodeChallengeScreen = () => {
     ]).start();
   };
 
-  // Load the target QR code data and play alarm sound
+  // Load the target QR codes and keep the alarm ringing
   useEffect(() => {
     const loadQRCodeData = async () => {
       try {
-        if (alarm && alarm.qrCodeId) {
-          const qrCodeJson = await AsyncStorage.getItem(`qrcode_${alarm.qrCodeId}`);
-          if (qrCodeJson) {
-            const qrCode = JSON.parse(qrCodeJson);
-            setTargetQRData(qrCode.data);
-            setTargetQRName(qrCode.name || 'Saved QR Code');
-          } else {
-            // QR code not found - this shouldn't happen
-            Alert.alert(
-              'Error',
-              'The QR code for this alarm could not be found. Please dismiss the alarm manually.',
-              [
-                {
-                  text: 'Dismiss Alarm',
-                  onPress: () => navigation.navigate('Home'),
-                },
-              ]
-            );
-          }
+        const qrCodes = alarm.qrCodeIds && alarm.qrCodeIds.length > 0 ? await getQRCodes(alarm.qrCodeIds) : [];
+        if (qrCodes.length > 0 && qrCodes.every(qrCode => qrCode !== null)) {
+          setTargetCodes(qrCodes as QRCode[]);
+        } else {
+          // The codes were deleted - the alarm still needs a challenge solved, just not this one
+          Alert.alert(
+            `${codeTitle} Missing`,
+            `A ${codeName} for this alarm could not be found - the alarm falls back to the "${fallbackName}" challenge.`,
+            [
+              {
+                text: 'Continue',
+                onPress: () => replaceWithFallbackChallenge(navigation, alarm, step),
+              },
+            ],
+            { cancelable: false }
+          );
         }
       } catch (error) {
         console.error('Error loading QR code data:', error);
@@ -117,23 +139,6 @@ const QRCodeChallengeScreen = () => {
       }
     };
     
-    const playAlarmSound = async () => {
-      try {
-        // Load the sound
-        const { sound } = await Audio.Sound.createAsync(
-          require('../../assets/alarm.mp3'),
-          { shouldPlay: true, isLooping: true, volume: 1.0 }
-        );
-        setSound(sound);
-        
-        // Start vibration pattern
-        const PATTERN = [500, 1000, 500, 1000];
-        Vibration.vibrate(PATTERN, true);
-      } catch (error) {
-        console.error('Error playing alarm sound:', error);
-      }
-    };
-    
     // Request camera permissions
     const requestCameraPermission = async () => {
       const { status } = await Camera.requestCameraPermissionsAsync();
@@ -141,17 +146,10 @@ const QRCodeChallengeScreen = () => {
     };
     
     loadQRCodeData();
-    playAlarmSound();
     requestCameraPermission();
     
-    // Cleanup function
-    return () => {
-      if (sound) {
-        sound.stopAsync();
-        sound.unloadAsync();
-      }
-      Vibration.cancel();
-    };
+    // Keep ringing - the sound carries over from the ringing screen
+    AlarmAudioService.start(alarm);
   }, [alarm]);
 
   // Handle barcode scanning
@@ -159,23 +157,47 @@ const QRCodeChallengeScreen = () => {
     // Extract the data from the result
     const { data } = result;
     
-    // Check if the scanned QR code matches the target
-    if (data === targetQRData) {
+    // Ignore the same code while it stays in view
+    const now = Date.now();
+    if (data === lastScanRef.current.data && now - lastScanRef.current.at < RESCAN_COOLDOWN_MS) {
+      return;
+    }
+    lastScanRef.current = { data, at: now };
+    
+    const scannedCode = targetCodes.find(code => code.data === data);
+    
+    // Codes already scanned don't count again
+    if (scannedCode && completedIds.includes(scannedCode.id)) {
+      return;
+    }
+    
+    // Check if the scanned QR code is one still needed - in order, it has to be the next one
+    const isExpected = !!scannedCode && (!isOrdered || scannedCode.id === nextCode?.id);
+    
+    if (isExpected && completedIds.length + 1 < targetCodes.length) {
+      // More codes to go
+      setCompletedIds(prev => [...prev, scannedCode.id]);
+      Vibration.vibrate(100);
+    } else if (isExpected) {
+      // Chained challenges move on to the next step and keep ringing
+      if (goToNextChallengeStep(navigation, alarm, step)) return;
+
+      setCompletedIds(prev => [...prev, scannedCode.id]);
       setScanned(true);
       
       // Stop alarm sound and vibration
-      if (sound) {
-        sound.stopAsync();
-      }
-      Vibration.cancel();
+      AlarmAudioService.stop();
       
-      // Update alarm statistics
-      updateAlarmStatistics();
+      // Alarm is dismissed - drop any pending snooze and clear its notification
+      cancelSnooze(alarm.id);
+      dismissAlarmNotifications(alarm);
       
       // Show success message and navigate back to home
       Alert.alert(
         'Alarm Dismissed',
-        'You successfully completed the QR code challenge!',
+        targetCodes.length > 1
+          ? `You scanned every ${codeName} and completed the challenge!`
+          : `You successfully completed the ${codeName} challenge!`,
         [
           {
             text: 'OK',
@@ -186,6 +208,7 @@ const QRCodeChallengeScreen = () => {
     } else {
       // Wrong QR code scanned
       setAttempts(prev => prev + 1);
+      recordChallengeAttempt(alarm.id);
       startShake();
       
       // Vibrate to indicate wrong scan
@@ -193,52 +216,24 @@ const QRCodeChallengeScreen = () => {
       
       // Show error message for wrong QR code
       Alert.alert(
-        'Wrong QR Code',
-        'This is not the correct QR code. Please scan the QR code you set up for this alarm.',
+        `Wrong ${codeTitle}`,
+        scannedCode && nextCode
+          ? `These codes must be scanned in order. Scan "${nextCode.name}" first.`
+          : isAppQRPayload(data)
+            ? `This is a printed code for a different alarm. Please scan the ${codeName} you set up for this alarm.`
+            : `This is not the correct ${codeName}. Please scan the ${codeName} you set up for this alarm.`,
         [{ text: 'Try Again' }]
       );
     }
   };
 
-  // Update alarm statistics
-  const updateAlarmStatistics = async () => {
-    try {
-      // Get current date string (YYYY-MM-DD)
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Get existing statistics
-      const statsJson = await AsyncStorage.getItem('alarmStatistics');
-      let stats = statsJson ? JSON.parse(statsJson) : {};
-      
-      // Initialize today's stats if not exist
-      if (!stats[today]) {
-        stats[today] = {
-          alarmsTriggered: 0,
-          alarmsDismissed: 0,
-          averageDismissTime: 0,
-          totalDismissTime: 0,
-          challengeAttempts: 0,
-        };
-      }
-      
-      // Update statistics
-      stats[today].alarmsDismissed += 1;
-      stats[today].challengeAttempts += attempts;
-      
-      // Save updated statistics
-      await AsyncStorage.setItem('alarmStatistics', JSON.stringify(stats));
-    } catch (error) {
-      console.error('Error updating alarm statistics:', error);
-    }
-  };
-
   // Show different UI based on permission status
   if (loading || hasPermission === null) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: '#121212' }]}>
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#ffffff" />
-          <Text style={styles.loadingText}>Loading QR code challenge...</Text>
+          <Text style={styles.loadingText}>Loading {codeName} challenge...</Text>
         </View>
       </SafeAreaView>
     );
@@ -254,7 +249,7 @@ const QRCodeChallengeScreen = () => {
         <View style={styles.permissionContainer}>
           <Feather name="camera-off" size={64} color="#e0e0e0" />
           <Text style={styles.permissionText}>
-            Camera permission is required to complete the QR code challenge.
+            Camera permission is required to complete the {codeName} challenge.
           </Text>
           <TouchableOpacity 
             style={styles.permissionButton}
@@ -268,16 +263,9 @@ const QRCodeChallengeScreen = () => {
           
           <TouchableOpacity 
             style={[styles.permissionButton, { backgroundColor: '#F44336', marginTop: 12 }]}
-            onPress={() => {
-              // Stop alarm sound and vibration
-              if (sound) {
-                sound.stopAsync();
-              }
-              Vibration.cancel();
-              navigation.navigate('Home');
-            }}
+            onPress={() => replaceWithFallbackChallenge(navigation, alarm, step)}
           >
-            <Text style={styles.permissionButtonText}>Dismiss Alarm</Text>
+            <Text style={styles.permissionButtonText}>{fallbackName} Instead</Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -288,13 +276,16 @@ const QRCodeChallengeScreen = () => {
     <SafeAreaView style={[styles.container, { backgroundColor: '#121212' }]}>
       <View style={styles.header}>
         <Animated.View style={{ transform: [{ translateX: shakeAnim }] }}>
-          <Text style={styles.alarmTitle}>Scan Your QR Code!</Text>
+          <Text style={styles.alarmTitle}>
+            {targetCodes.length > 1 ? `Scan Your ${codeTitle}s!` : `Scan Your ${codeTitle}!`}
+          </Text>
         </Animated.View>
       </View>
       
       <View style={styles.timeContainer}>
         <Text style={styles.timeText}>{alarm.time}</Text>
         <Text style={styles.alarmLabel}>{alarm.label}</Text>
+        {stepLabel && <Text style={styles.stepText}>{stepLabel}</Text>}
       </View>
       
       <View style={styles.scannerContainer}>
@@ -302,7 +293,7 @@ const QRCodeChallengeScreen = () => {
           <CameraView
             style={StyleSheet.absoluteFillObject}
             barcodeScannerSettings={{
-              barcodeTypes: ['qr']
+              barcodeTypes
             }}
             onBarcodeScanned={scanned ? undefined : handleBarCodeScanned}
           />
@@ -311,11 +302,12 @@ const QRCodeChallengeScreen = () => {
         {!scanned && (
           <View style={styles.overlay}>
             <View style={styles.unfilled} />
-            <View style={styles.row}>
+            <View style={[styles.row, isBarcode && styles.barcodeRow]}>
               <View style={styles.unfilled} />
               <Animated.View 
                 style={[
                   styles.scanner,
+                  isBarcode && styles.barcodeScanner,
                   { transform: [{ scale: pulseAnim }] }
                 ]}
               />
@@ -327,12 +319,49 @@ const QRCodeChallengeScreen = () => {
       </View>
       
       <View style={styles.instructionContainer}>
-        <Text style={styles.instructionText}>
-          Scan the QR code you set up for this alarm to dismiss it.
-        </Text>
-        <Text style={styles.qrNameText}>
-          Looking for: {targetQRName}
-        </Text>
+        {targetCodes.length > 1 ? (
+          <>
+            <Text style={styles.instructionText}>
+              Scan all {targetCodes.length} {codeName}s{isOrdered ? ' in order' : ''} to dismiss the alarm.
+            </Text>
+            <View style={styles.progressList}>
+              {targetCodes.map((code, index) => {
+                const isDone = completedIds.includes(code.id);
+                const isNext = isOrdered && code.id === nextCode?.id;
+                return (
+                  <View key={code.id} style={styles.progressRow}>
+                    <Feather
+                      name={isDone ? 'check-circle' : 'circle'}
+                      size={18}
+                      color={isDone ? '#4CAF50' : isNext ? '#2E7D87' : '#666'}
+                    />
+                    <Text
+                      style={[
+                        styles.progressText,
+                        isDone && styles.progressTextDone,
+                        isNext && styles.qrNameText
+                      ]}
+                    >
+                      {isOrdered ? `${index + 1}. ` : ''}{code.name || `Saved ${codeTitle}`}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+            <Text style={styles.progressCount}>
+              {completedIds.length} of {targetCodes.length} scanned
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text style={styles.instructionText}>
+              Scan the {codeName} you set up for this alarm to dismiss it.
+            </Text>
+            <Text style={styles.qrNameText}>
+              Looking for: {targetCodes[0]?.name || `Saved ${codeTitle}`}
+            </Text>
+          </>
+        )}
         
         {attempts > 0 && (
           <Text style={styles.attemptsText}>
@@ -374,6 +403,12 @@ const styles = StyleSheet.create({
     color: '#cccccc',
     marginTop: 8,
   },
+  stepText: {
+    fontSize: 16,
+    color: '#2E7D87',
+    fontWeight: '600',
+    marginTop: 8,
+  },
   scannerContainer: {
     flex: 1,
     overflow: 'hidden',
@@ -397,6 +432,14 @@ const styles = StyleSheet.create({
     borderColor: '#2E7D87',
     backgroundColor: 'transparent',
   },
+  // Barcodes are wide and short
+  barcodeRow: {
+    height: 130,
+  },
+  barcodeScanner: {
+    width: 300,
+    height: 130,
+  },
   instructionContainer: {
     padding: 20,
     alignItems: 'center',
@@ -413,6 +456,29 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     textAlign: 'center',
   },
+  progressList: {
+    alignSelf: 'stretch',
+    marginTop: 4,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 3,
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#cccccc',
+    marginLeft: 8,
+  },
+  progressTextDone: {
+    color: '#888',
+    textDecorationLine: 'line-through',
+  },
+  progressCount: {
+    fontSize: 14,
+    color: '#ffffff',
+    marginTop: 8,
+  },
   attemptsText: {
     fontSize: 14,
     color: '#F44336',
@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import Svg, { Rect, Path } from 'react-native-svg';
+import { RootStackParamList } from '../../App';
+import { QRCode } from '../types';
+import { getQRCodes } from '../services/qrCodeService';
+import {
+  QRCodeShape,
+  QR_EXPORT_SIZE,
+  getQRCodeShape,
+  exportQRCodePdf,
+  exportQRCodePng
+} from '../services/qrCodeGenerator';
+import { isWeb } from '../services/webCompatibility';
+
+type QRCodePrintScreenNavigationProp = StackNavigationProp<RootStackParamList, 'QRCodePrint'>;
+type QRCodePrintScreenRouteProp = RouteProp<RootStackParamList, 'QRCodePrint'>;
+
+type ExportFormat = 'png' | 'pdf';
+
+const QR_DISPLAY_SIZE = 240;
+
+const QRCodePrintScreen = () => {
+  const navigation = useNavigation<QRCodePrintScreenNavigationProp>();
+  const route = useRoute<QRCodePrintScreenRouteProp>();
+  const { qrCodeId } = route.params;
+
+  const [qrCode, setQrCode] = useState<QRCode | null>(null);
+  const [shape, setShape] = useState<QRCodeShape | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const svgRef = useRef<any>(null);
+
+  useEffect(() => {
+    const loadQRCode = async () => {
+      try {
+        const [loaded] = await getQRCodes([qrCodeId]);
+        if (loaded) {
+          setQrCode(loaded);
+          setShape(getQRCodeShape(loaded.data));
+        }
+      } catch (error) {
+        console.error('Error loading QR code for printing:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQRCode();
+  }, [qrCodeId]);
+
+  // Render the on-screen code at export size - native only, web draws its own PNG
+  const renderPng = () => new Promise<string | undefined>(resolve => {
+    if (isWeb || !svgRef.current) {
+      resolve(undefined);
+      return;
+    }
+    svgRef.current.toDataURL((base64: string) => resolve(base64), {
+      width: QR_EXPORT_SIZE,
+      height: QR_EXPORT_SIZE,
+    });
+  });
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!qrCode) return;
+
+    setExportingFormat(format);
+    try {
+      if (format === 'png') {
+        await exportQRCodePng(qrCode, await renderPng());
+      } else {
+        await exportQRCodePdf(qrCode);
+      }
+    } catch (error) {
+      console.error('Error exporting QR code:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'The QR code could not be exported.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Feather name="arrow-left" size={24} color="#2E7D87" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Print QR Code</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#2E7D87" />
+        </View>
+      ) : !qrCode || !shape ? (
+        <View style={styles.centered}>
+          <Feather name="alert-circle" size={48} color="#ccc" />
+          <Text style={styles.missingText}>This QR code no longer exists.</Text>
+        </View>
+      ) : (
+        <View style={styles.content}>
+          <View style={styles.codeCard}>
+            <Svg
+              ref={svgRef}
+              width={QR_DISPLAY_SIZE}
+              height={QR_DISPLAY_SIZE}
+              viewBox={`0 0 ${shape.size} ${shape.size}`}
+            >
+              <Rect x={0} y={0} width={shape.size} height={shape.size} fill="#fff" />
+              <Path d={shape.path} fill="#000" />
+            </Svg>
+            <Text style={styles.codeName}>{qrCode.name}</Text>
+          </View>
+
+          <Text style={styles.introText}>
+            Print this code and stick it somewhere away from your bed, like the bathroom mirror.
+            It only matches itself, so no other code can turn off the alarm.
+          </Text>
+
+          <View style={styles.exportButtons}>
+            {(['png', 'pdf'] as ExportFormat[]).map(format => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.exportButton, exportingFormat !== null && styles.disabledButton]}
+                onPress={() => handleExport(format)}
+                disabled={exportingFormat !== null}
+              >
+                {exportingFormat === format ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Feather name={format === 'png' ? 'image' : 'printer'} size={18} color="#fff" />
+                )}
+                <Text style={styles.exportButtonText}>{format === 'png' ? 'Save PNG' : 'Save PDF'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fd',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  missingText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 16,
+  },
+  content: {
+    padding: 24,
+    alignItems: 'center',
+  },
+  codeCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  codeName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    marginTop: 24,
+  },
+  exportButton: {
+    backgroundColor: '#2E7D87',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginHorizontal: 6,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default QRCodePrintScreen;
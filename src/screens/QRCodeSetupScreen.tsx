@@ -6,7 +6,9 @@ import {
   TouchableOpacity,
   Alert,
   ActivityIndicator,
-  Modal
+  Modal,
+  ScrollView,
+  TextInput
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
@@ -14,21 +16,50 @@ import { useNavigation, RouteProp, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
 import { CameraView, Camera, BarcodeScanningResult } from 'expo-camera';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AlarmMode, QRCode, QRCodeOrder } from '../types';
+import { AlarmRepository } from '../services/alarmRepository';
+import { scheduleAlarmNotification } from '../services/alarmService';
+import { getChallengeSteps } from '../services/challengeRegistry';
+import { createQRCode, getAllQRCodes, SCAN_CODE_KINDS } from '../services/qrCodeService';
+import { generateQRPayload, isAppQRPayload } from '../services/qrCodeGenerator';
 
 type QRCodeSetupScreenNavigationProp = StackNavigationProp<RootStackParamList, 'QRCodeSetup'>;
 type QRCodeSetupScreenRouteProp = RouteProp<RootStackParamList, 'QRCodeSetup'>;
 
+// Most codes one alarm can ask for
+const MAX_QR_CODES = 5;
+
+interface ScannedCode {
+  id?: string; // Set for codes already in the library
+  data: string;
+  name: string;
+}
+
 const QRCodeSetupScreen = () => {
   const navigation = useNavigation<QRCodeSetupScreenNavigationProp>();
   const route = useRoute<QRCodeSetupScreenRouteProp>();
   
+  // QR codes unless the alarm asks for a product barcode
+  const kind = route.params?.kind ?? 'qr';
+  const isBarcode = kind === 'barcode';
+  const { name: codeName, barcodeTypes } = SCAN_CODE_KINDS[kind];
+  const screenTitle = isBarcode ? 'Barcode Setup' : 'QR Code Setup';
+  
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanned, setScanned] = useState(false);
   const [qrValue, setQrValue] = useState('');
   const [qrName, setQrName] = useState('');
   const [loading, setLoading] = useState(false);
   const [showInstructions, setShowInstructions] = useState(true);
+  
+  // Codes added so far and whether they must be scanned in that order
+  const [codes, setCodes] = useState<ScannedCode[]>([]);
+  const [order, setOrder] = useState<QRCodeOrder>('ordered');
+  const [scanMessage, setScanMessage] = useState('');
+  
+  // Codes scanned for earlier alarms, which can be added without scanning
+  const [savedCodes, setSavedCodes] = useState<QRCode[]>([]);
+  const [showSavedCodes, setShowSavedCodes] = useState(false);
 
   // Request camera permissions
   useEffect(() => {
@@ -36,79 +67,115 @@ const QRCodeSetupScreen = () => {
       const { status } = await Camera.requestCameraPermissionsAsync();
       setHasPermission(status === 'granted');
     })();
+    
+    getAllQRCodes()
+      .then(qrCodes => setSavedCodes(qrCodes.filter(qrCode => (qrCode.kind ?? 'qr') === kind)))
+      .catch(error => console.error('Error loading saved QR codes:', error));
   }, []);
 
   // Handle barcode scanning
-  const handleBarCodeScanned = async (result: BarcodeScanningResult) => {
+  const handleBarCodeScanned = (result: BarcodeScanningResult) => {
     const { data } = result;
+    
+    // The same code can't be asked for twice
+    if (codes.some(code => code.data === data)) {
+      setScanMessage('This code is already in the list - scan a different one.');
+      return;
+    }
+    
     setScanned(true);
+    setScanMessage('');
     setQrValue(data);
     
+    // Codes already in the library keep their name
+    const savedCode = savedCodes.find(code => code.data === data);
+    
     // Generate a simple name for the QR code based on the first few characters
-    const simpleName = data.substring(0, 10) + (data.length > 10 ? '...' : '');
-    setQrName(simpleName);
+    const simpleName = !isBarcode && isAppQRPayload(data)
+      ? 'Printed code'
+      : data.substring(0, 10) + (data.length > 10 ? '...' : '');
+    setQrName(savedCode ? savedCode.name : simpleName);
+  };
+
+  // Add the scanned code to the list and go back to scanning
+  const addScannedCode = () => {
+    const savedCode = savedCodes.find(code => code.data === qrValue);
+    const name = qrName.trim() || (isBarcode ? 'Barcode' : 'QR Code');
     
-    // Show success message
-    Alert.alert(
-      'QR Code Scanned',
-      `Successfully scanned QR code: ${simpleName}`,
-      [
-        {
-          text: 'Use This Code',
-          onPress: () => saveQRCodeAndReturn(data),
-        },
-        {
-          text: 'Scan Again',
-          onPress: () => setScanned(false),
-          style: 'cancel',
-        },
-      ]
-    );
+    // A code that's already saved is reused unless it was renamed here
+    setCodes(current => [
+      ...current,
+      { id: savedCode && savedCode.name === name ? savedCode.id : undefined, data: qrValue, name }
+    ]);
+    setScanned(false);
   };
 
-  // Save QR code data and return to previous screen
-  const saveQRCodeAndReturn = async (qrData: string) => {
+  // Add a code from the library without scanning it
+  const addSavedCode = (qrCode: QRCode) => {
+    setCodes(current => [...current, { id: qrCode.id, data: qrCode.data, name: qrCode.name }]);
+    setShowSavedCodes(false);
+  };
+  
+  // Create a new printable code, save it right away and open it for printing
+  const generatePrintableCode = async () => {
     try {
-      setLoading(true);
+      const printedCount = savedCodes.filter(code => code.generated).length;
+      const qrCode = await createQRCode(generateQRPayload(), `Printed code ${printedCount + 1}`, true);
       
-      // Create a unique ID for this QR code
-      const qrId = `qr_${Date.now()}`;
-      
-      // Save QR code data to storage
-      const qrInfo = {
-        id: qrId,
-        data: qrData,
-        name: qrName,
-        timestamp: Date.now()
-      };
+      setSavedCodes(current => [qrCode, ...current]);
+      setCodes(current => [...current, { id: qrCode.id, data: qrCode.data, name: qrCode.name }]);
+      navigation.navigate('QRCodePrint', { qrCodeId: qrCode.id });
+    } catch (error) {
+      console.error('Error generating QR code:', error);
+      Alert.alert('Error', 'Failed to create a printable QR code. Please try again.');
+    }
+  };
+  
+  const availableSavedCodes = savedCodes.filter(savedCode => !codes.some(code => code.data === savedCode.data));
+
+  const removeCode = (index: number) => {
+    setCodes(current => current.filter((_, codeIndex) => codeIndex !== index));
+  };
+
+  // Save the QR codes and return to previous screen
+  const saveQRCodesAndReturn = async () => {
+    try {
+      setLoading(true);
       
-      await AsyncStorage.setItem(`qrcode_${qrId}`, JSON.stringify(qrInfo));
+      // Save each newly scanned code to storage - library codes are reused as they are
+      const qrCodeIds: string[] = [];
+      for (const code of codes) {
+        qrCodeIds.push(code.id ?? (await createQRCode(code.data, code.name, !isBarcode && isAppQRPayload(code.data), kind)).id);
+      }
       
-      // If we have an alarm ID from the route params, associate this QR code with that alarm
+      // If we have an alarm ID from the route params, associate these QR codes with that alarm
       if (route.params?.alarmId) {
-        const alarmsJson = await AsyncStorage.getItem('alarms');
-        if (alarmsJson) {
-          const alarms = JSON.parse(alarmsJson);
-          const updatedAlarms = alarms.map((alarm: any) => {
-            if (alarm.id === route.params?.alarmId) {
-              return {
-                ...alarm,
-                mode: 'QR_CODE',
-                qrCodeId: qrId
-              };
-            }
-            return alarm;
-          });
-          
-          await AsyncStorage.setItem('alarms', JSON.stringify(updatedAlarms));
+        // Chained alarms keep their challenge steps - scanning can be any one of them
+        const scanMode = isBarcode ? AlarmMode.BARCODE : AlarmMode.QR_CODE;
+        const alarm = await AlarmRepository.get(route.params.alarmId);
+        const modeFields = alarm && getChallengeSteps(alarm).includes(scanMode)
+          ? {}
+          : { mode: scanMode, challengeSteps: undefined };
+        
+        // Alarms saved from the form stay off until their codes are bound - turn them on if they were meant to be
+        const updatedAlarm = await AlarmRepository.update(route.params.alarmId, {
+          ...modeFields,
+          ...(route.params.activate ? { isActive: true } : {}),
+          qrCodeIds,
+          qrCodeOrder: order
+        });
+        
+        // Now that the codes are bound the alarm can be scheduled
+        if (updatedAlarm && updatedAlarm.isActive) {
+          await scheduleAlarmNotification(updatedAlarm);
         }
       }
       
-      // Return to previous screen with QR code ID
+      // Return to previous screen
       navigation.goBack();
     } catch (error) {
-      console.error('Error saving QR code:', error);
-      Alert.alert('Error', 'Failed to save QR code. Please try again.');
+      console.error('Error saving codes:', error);
+      Alert.alert('Error', `Failed to save the ${codeName}s. Please try again.`);
     } finally {
       setLoading(false);
     }
@@ -133,13 +200,13 @@ const QRCodeSetupScreen = () => {
           <TouchableOpacity onPress={() => navigation.goBack()}>
             <Feather name="arrow-left" size={24} color="#2E7D87" />
           </TouchableOpacity>
-          <Text style={styles.title}>QR Code Setup</Text>
+          <Text style={styles.title}>{screenTitle}</Text>
           <View style={{ width: 24 }} />
         </View>
         
         <View style={styles.permissionContainer}>
           <Feather name="camera-off" size={64} color="#e0e0e0" />
-          <Text style={styles.permissionText}>Camera permission is required to scan QR codes.</Text>
+          <Text style={styles.permissionText}>Camera permission is required to scan {codeName}s.</Text>
           <TouchableOpacity 
             style={styles.permissionButton}
             onPress={async () => {
@@ -160,18 +227,18 @@ const QRCodeSetupScreen = () => {
         <TouchableOpacity onPress={() => navigation.goBack()}>
           <Feather name="arrow-left" size={24} color="#2E7D87" />
         </TouchableOpacity>
-        <Text style={styles.title}>QR Code Setup</Text>
+        <Text style={styles.title}>{screenTitle}</Text>
         <TouchableOpacity onPress={() => setShowInstructions(true)}>
           <Feather name="help-circle" size={24} color="#2E7D87" />
         </TouchableOpacity>
       </View>
       
       <View style={styles.scannerContainer}>
-        {!scanned && (
+        {!scanned && codes.length < MAX_QR_CODES && (
           <CameraView
             style={StyleSheet.absoluteFillObject}
             barcodeScannerSettings={{
-              barcodeTypes: ['qr']
+              barcodeTypes
             }}
             onBarcodeScanned={scanned ? undefined : handleBarCodeScanned}
           />
@@ -180,35 +247,124 @@ const QRCodeSetupScreen = () => {
         {!scanned && (
           <View style={styles.overlay}>
             <View style={styles.unfilled} />
-            <View style={styles.row}>
+            <View style={[styles.row, isBarcode && styles.barcodeRow]}>
               <View style={styles.unfilled} />
-              <View style={styles.scanner} />
+              <View style={[styles.scanner, isBarcode && styles.barcodeScanner]} />
               <View style={styles.unfilled} />
             </View>
             <View style={styles.unfilled} />
           </View>
         )}
         
+        {!scanned && scanMessage !== '' && (
+          <View style={styles.scanMessage}>
+            <Text style={styles.scanMessageText}>{scanMessage}</Text>
+          </View>
+        )}
+        
+        {!scanned && codes.length >= MAX_QR_CODES && (
+          <View style={styles.scannedContainer}>
+            <Feather name="check-circle" size={64} color="#4CAF50" />
+            <Text style={styles.scannedText}>{MAX_QR_CODES} codes added</Text>
+            <Text style={styles.scannedValue}>That's the most one alarm can ask for.</Text>
+          </View>
+        )}
+        
         {scanned && (
           <View style={styles.scannedContainer}>
             <Feather name="check-circle" size={64} color="#4CAF50" />
-            <Text style={styles.scannedText}>QR Code Scanned!</Text>
-            <Text style={styles.scannedValue}>{qrName}</Text>
-            <TouchableOpacity
-              style={styles.scanAgainButton}
-              onPress={() => setScanned(false)}
-            >
-              <Text style={styles.scanAgainButtonText}>Scan Again</Text>
-            </TouchableOpacity>
+            <Text style={styles.scannedText}>{isBarcode ? 'Barcode Scanned!' : 'QR Code Scanned!'}</Text>
+            <Text style={styles.nameLabel}>Where is this code?</Text>
+            <TextInput
+              style={styles.nameInput}
+              value={qrName}
+              onChangeText={setQrName}
+              placeholder={isBarcode ? 'e.g. Toothpaste' : 'e.g. Bathroom mirror'}
+              placeholderTextColor="#aaa"
+              maxLength={40}
+            />
+            <View style={styles.scannedActions}>
+              <TouchableOpacity
+                style={[styles.scanAgainButton, styles.secondaryButton]}
+                onPress={() => setScanned(false)}
+              >
+                <Text style={[styles.scanAgainButtonText, styles.secondaryButtonText]}>Scan Again</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.scanAgainButton}
+                onPress={addScannedCode}
+              >
+                <Text style={styles.scanAgainButtonText}>Add This Code</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         )}
       </View>
       
       <View style={styles.footer}>
-        <Text style={styles.footerText}>
-          Scan a QR code to use as your alarm challenge.
-          You'll need to scan the same code to dismiss your alarm.
-        </Text>
+        {codes.length < MAX_QR_CODES && (
+          <View style={styles.extraActions}>
+            {!isBarcode && (
+              <TouchableOpacity style={styles.savedCodesButton} onPress={generatePrintableCode}>
+                <Feather name="printer" size={16} color="#2E7D87" />
+                <Text style={styles.savedCodesButtonText}>Create a printable code</Text>
+              </TouchableOpacity>
+            )}
+            {availableSavedCodes.length > 0 && (
+              <TouchableOpacity style={styles.savedCodesButton} onPress={() => setShowSavedCodes(true)}>
+                <Feather name="folder" size={16} color="#2E7D87" />
+                <Text style={styles.savedCodesButtonText}>Add a saved code</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        
+        {codes.length === 0 ? (
+          <Text style={styles.footerText}>
+            Scan one or more {codeName}s to use as your alarm challenge.
+            You'll need to scan the same codes to dismiss your alarm.
+          </Text>
+        ) : (
+          <>
+            <ScrollView style={styles.codeList}>
+              {codes.map((code, index) => (
+                <View key={code.data} style={styles.codeRow}>
+                  <Text style={styles.codeNumber}>{order === 'ordered' ? `${index + 1}.` : '•'}</Text>
+                  <Text style={styles.codeName} numberOfLines={1}>{code.name}</Text>
+                  <TouchableOpacity onPress={() => removeCode(index)}>
+                    <Feather name="x" size={18} color="#888" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+            
+            {codes.length > 1 && (
+              <View style={styles.orderRow}>
+                {(['ordered', 'unordered'] as QRCodeOrder[]).map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.orderChip, order === option && styles.selectedOrderChip]}
+                    onPress={() => setOrder(option)}
+                  >
+                    <Text style={[styles.orderChipText, order === option && styles.selectedOrderChipText]}>
+                      {option === 'ordered' ? 'In this order' : 'Any order'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            
+            <TouchableOpacity
+              style={[styles.saveButton, scanned && styles.disabledButton]}
+              onPress={saveQRCodesAndReturn}
+              disabled={scanned}
+            >
+              <Text style={styles.saveButtonText}>
+                Use {codes.length} {codes.length === 1 ? 'Code' : 'Codes'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
       
       {/* Instructions Modal */}
@@ -220,19 +376,38 @@ const QRCodeSetupScreen = () => {
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>QR Code Challenge</Text>
-            <Text style={styles.modalText}>
-              1. Scan any QR code (product, business card, etc.)
-            </Text>
-            <Text style={styles.modalText}>
-              2. Place the QR code somewhere away from your bed
-            </Text>
-            <Text style={styles.modalText}>
-              3. When the alarm rings, you'll need to get up and scan the same QR code to dismiss it
-            </Text>
-            <Text style={styles.modalTip}>
-              Tip: Use a QR code on a product in your bathroom to force yourself to get out of bed!
-            </Text>
+            <Text style={styles.modalTitle}>{isBarcode ? 'Barcode Challenge' : 'QR Code Challenge'}</Text>
+            {isBarcode ? (
+              <>
+                <Text style={styles.modalText}>
+                  1. Scan the barcode of a product you keep at home - add several for a wake-up route
+                </Text>
+                <Text style={styles.modalText}>
+                  2. Keep the products somewhere away from your bed
+                </Text>
+                <Text style={styles.modalText}>
+                  3. When the alarm rings, you'll need to get up and scan the same barcodes to dismiss it
+                </Text>
+                <Text style={styles.modalTip}>
+                  Tip: Your toothpaste or the coffee bag in the kitchen make great wake-up barcodes!
+                </Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.modalText}>
+                  1. Scan any QR code (product, business card, etc.) or create one to print - add several for a wake-up route
+                </Text>
+                <Text style={styles.modalText}>
+                  2. Place the QR codes somewhere away from your bed
+                </Text>
+                <Text style={styles.modalText}>
+                  3. When the alarm rings, you'll need to get up and scan the same QR codes to dismiss it
+                </Text>
+                <Text style={styles.modalTip}>
+                  Tip: Use a QR code on a product in your bathroom to force yourself to get out of bed!
+                </Text>
+              </>
+            )}
             <TouchableOpacity
               style={styles.modalButton}
               onPress={() => setShowInstructions(false)}
@@ -243,6 +418,39 @@ const QRCodeSetupScreen = () => {
         </View>
       </Modal>
       
+      {/* Saved codes picker */}
+      <Modal
+        visible={showSavedCodes}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowSavedCodes(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{isBarcode ? 'Saved Barcodes' : 'Saved QR Codes'}</Text>
+            <ScrollView style={styles.savedCodeList}>
+              {availableSavedCodes.map(qrCode => (
+                <TouchableOpacity
+                  key={qrCode.id}
+                  style={styles.savedCodeRow}
+                  onPress={() => addSavedCode(qrCode)}
+                >
+                  <Feather name={isBarcode ? 'shopping-bag' : 'grid'} size={16} color="#2E7D87" />
+                  <Text style={styles.savedCodeName} numberOfLines={1}>{qrCode.name || 'Saved QR Code'}</Text>
+                  <Feather name="plus" size={18} color="#2E7D87" />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.savedCodesCloseButton]}
+              onPress={() => setShowSavedCodes(false)}
+            >
+              <Text style={styles.modalButtonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+      
       {/* Loading overlay */}
       {loading && (
         <View style={styles.loadingOverlay}>
@@ -296,6 +504,14 @@ const styles = StyleSheet.create({
     borderColor: '#2E7D87',
     backgroundColor: 'transparent',
   },
+  // Barcodes are wide and short
+  barcodeRow: {
+    height: 130,
+  },
+  barcodeScanner: {
+    width: 300,
+    height: 130,
+  },
   scannedContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -327,6 +543,49 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  secondaryButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#2E7D87',
+    marginRight: 12,
+  },
+  secondaryButtonText: {
+    color: '#2E7D87',
+  },
+  scannedActions: {
+    flexDirection: 'row',
+  },
+  nameLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  nameInput: {
+    width: '100%',
+    maxWidth: 300,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 24,
+  },
+  scanMessage: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 8,
+    padding: 12,
+  },
+  scanMessageText: {
+    color: '#fff',
+    fontSize: 14,
+    textAlign: 'center',
+  },
   footer: {
     padding: 20,
     backgroundColor: '#fff',
@@ -338,6 +597,96 @@ const styles = StyleSheet.create({
     color: '#666',
     textAlign: 'center',
   },
+  extraActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingBottom: 12,
+  },
+  savedCodesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  savedCodesButtonText: {
+    fontSize: 14,
+    color: '#2E7D87',
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  savedCodeList: {
+    maxHeight: 300,
+  },
+  savedCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  savedCodeName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginHorizontal: 10,
+  },
+  savedCodesCloseButton: {
+    marginTop: 16,
+  },
+  codeList: {
+    maxHeight: 160,
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  codeNumber: {
+    width: 24,
+    fontSize: 14,
+    color: '#2E7D87',
+    fontWeight: 'bold',
+  },
+  codeName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  orderRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  orderChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#f5f5f5',
+    marginRight: 8,
+  },
+  selectedOrderChip: {
+    backgroundColor: '#2E7D87',
+  },
+  orderChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedOrderChipText: {
+    color: '#fff',
+  },
+  saveButton: {
+    backgroundColor: '#2E7D87',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
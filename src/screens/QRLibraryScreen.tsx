@@ -0,0 +1,349 @@
+import React, { useCallback, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../../App';
+import { Alarm, QRCode } from '../types';
+import {
+  getAllQRCodes,
+  getQRCodeUsage,
+  renameQRCode,
+  deleteQRCode,
+  deleteUnusedQRCodes
+} from '../services/qrCodeService';
+
+type QRLibraryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'QRLibrary'>;
+
+const QRLibraryScreen = () => {
+  const navigation = useNavigation<QRLibraryScreenNavigationProp>();
+  const [qrCodes, setQrCodes] = useState<QRCode[]>([]);
+  const [usage, setUsage] = useState<Record<string, Alarm[]>>({});
+
+  // Code being renamed and its new name
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const loadQRCodes = async () => {
+    try {
+      const [codes, codeUsage] = await Promise.all([getAllQRCodes(), getQRCodeUsage()]);
+      setQrCodes(codes);
+      setUsage(codeUsage);
+    } catch (error) {
+      console.error('Error loading QR codes:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadQRCodes();
+    }, [])
+  );
+
+  const startRename = (qrCode: QRCode) => {
+    setEditingId(qrCode.id);
+    setEditName(qrCode.name);
+  };
+
+  const saveRename = async () => {
+    if (!editingId) return;
+
+    try {
+      await renameQRCode(editingId, editName);
+      setEditingId(null);
+      await loadQRCodes();
+    } catch (error) {
+      console.error('Error renaming QR code:', error);
+      Alert.alert('Rename Failed', error instanceof Error ? error.message : 'The QR code could not be renamed.');
+    }
+  };
+
+  // Remove a code after confirmation - codes still used by an alarm can't be deleted
+  const confirmDelete = (qrCode: QRCode) => {
+    const alarms = usage[qrCode.id] ?? [];
+    if (alarms.length > 0) {
+      Alert.alert(
+        'Code In Use',
+        `"${qrCode.name}" is used by ${alarms.map(alarm => alarm.label).join(', ')}. Change or delete ${alarms.length === 1 ? 'that alarm' : 'those alarms'} before deleting the code.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Delete Code',
+      `Remove "${qrCode.name}"? You'll need to scan it again to use it for an alarm.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteQRCode(qrCode.id);
+            } catch (error) {
+              console.error('Error deleting QR code:', error);
+              Alert.alert('Delete Failed', error instanceof Error ? error.message : 'The QR code could not be deleted.');
+            }
+            await loadQRCodes();
+          }
+        }
+      ]
+    );
+  };
+
+  const confirmDeleteUnused = (count: number) => {
+    Alert.alert(
+      'Delete Unused Codes',
+      `Remove ${count} ${count === 1 ? 'code' : 'codes'} that no alarm uses?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteUnusedQRCodes();
+            } catch (error) {
+              console.error('Error deleting unused QR codes:', error);
+            }
+            await loadQRCodes();
+          }
+        }
+      ]
+    );
+  };
+
+  const renderQRCode = ({ item }: { item: QRCode }) => {
+    const alarms = usage[item.id] ?? [];
+    const isEditing = editingId === item.id;
+
+    return (
+      <View style={styles.codeCard}>
+        <View style={styles.codeIcon}>
+          <Feather name={item.kind === 'barcode' ? 'shopping-bag' : 'grid'} size={20} color="#2E7D87" />
+        </View>
+        <View style={styles.codeInfo}>
+          {isEditing ? (
+            <TextInput
+              style={styles.nameInput}
+              value={editName}
+              onChangeText={setEditName}
+              onSubmitEditing={saveRename}
+              autoFocus
+              maxLength={40}
+              returnKeyType="done"
+            />
+          ) : (
+            <Text style={styles.codeName}>{item.name || 'Saved QR Code'}</Text>
+          )}
+          <Text style={styles.codeData} numberOfLines={1}>
+            {item.generated ? 'Printable code made in the app' : item.data}
+          </Text>
+          <Text style={[styles.codeMeta, alarms.length === 0 && styles.unusedText]}>
+            {alarms.length > 0
+              ? `Used by ${alarms.map(alarm => `${alarm.label} (${alarm.time})`).join(', ')}`
+              : 'Not used by any alarm'}
+          </Text>
+        </View>
+        {isEditing ? (
+          <>
+            <TouchableOpacity onPress={saveRename} style={styles.iconButton}>
+              <Feather name="check" size={18} color="#2E7D87" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setEditingId(null)} style={styles.iconButton}>
+              <Feather name="x" size={18} color="#888" />
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            {item.generated && (
+              <TouchableOpacity
+                onPress={() => navigation.navigate('QRCodePrint', { qrCodeId: item.id })}
+                style={styles.iconButton}
+              >
+                <Feather name="printer" size={18} color="#888" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => startRename(item)} style={styles.iconButton}>
+              <Feather name="edit-2" size={18} color="#888" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.iconButton}>
+              <Feather name="trash-2" size={18} color={alarms.length > 0 ? '#ccc' : '#888'} />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const unusedCount = qrCodes.filter(qrCode => !usage[qrCode.id]).length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Feather name="arrow-left" size={24} color="#2E7D87" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Saved Codes</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <FlatList
+        data={qrCodes}
+        keyExtractor={qrCode => qrCode.id}
+        renderItem={renderQRCode}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={
+          <Text style={styles.introText}>
+            QR codes and barcodes you've scanned or printed for your alarms. Any of them can be added
+            to another alarm of the same kind without scanning it again.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyCard}>
+            <Text style={styles.emptyTitle}>No saved codes yet</Text>
+            <Text style={styles.emptyText}>Codes are added here when you set up a QR code or barcode alarm.</Text>
+          </View>
+        }
+        ListFooterComponent={
+          unusedCount > 0 ? (
+            <TouchableOpacity style={styles.cleanupButton} onPress={() => confirmDeleteUnused(unusedCount)}>
+              <Feather name="trash" size={18} color="#F44336" />
+              <Text style={styles.cleanupButtonText}>
+                Delete {unusedCount} unused {unusedCount === 1 ? 'code' : 'codes'}
+              </Text>
+            </TouchableOpacity>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fd',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  content: {
+    padding: 16,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  codeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  codeIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#e4f5f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  codeInfo: {
+    flex: 1,
+  },
+  codeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  nameInput: {
+    fontSize: 16,
+    color: '#333',
+    borderBottomWidth: 1,
+    borderBottomColor: '#2E7D87',
+    paddingVertical: 2,
+  },
+  codeData: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  codeMeta: {
+    fontSize: 12,
+    color: '#2E7D87',
+    marginTop: 4,
+  },
+  unusedText: {
+    color: '#888',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  emptyCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  cleanupButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#F44336',
+    marginTop: 4,
+  },
+  cleanupButtonText: {
+    color: '#F44336',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+});
+
+export default QRLibraryScreen;
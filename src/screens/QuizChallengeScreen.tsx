@@ -5,98 +5,30 @@ import {
   Text,
   TouchableOpacity,
   BackHandler,
-  Vibration,
-  Platform
+  Vibration
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Feather } from '@expo/vector-icons';
-import { Audio } from 'expo-av';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../App';
-import * as Notifications from 'expo-notifications';
+import { cancelSnooze, dismissAlarmNotifications } from '../services/alarmService';
+import { recordChallengeAttempt } from '../services/ringingSessionService';
+import { AlarmAudioService } from '../services/alarmAudioService';
+import { getChallengeSteps, getChallengeStepLabel, goToNextChallengeStep } from '../services/challengeRegistry';
+import { QuizQuestion, DEFAULT_QUIZ_STREAK } from '../services/quizGenerator';
+import { getNextQuizQuestion } from '../services/quizPackService';
 
 type QuizChallengeRouteProp = RouteProp<RootStackParamList, 'QuizChallenge'>;
 type QuizChallengeNavigationProp = StackNavigationProp<RootStackParamList, 'QuizChallenge'>;
 
-// Define a quiz question interface
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: number; // Index of the correct answer
-}
-
-// Pool of math questions with varying difficulty
-const QUIZ_QUESTIONS: QuizQuestion[] = [
-  {
-    question: 'What is 8 × 7?',
-    options: ['54', '56', '49', '63'],
-    correctAnswer: 1
-  },
-  {
-    question: 'If x + 8 = 15, what is x?',
-    options: ['5', '6', '7', '8'],
-    correctAnswer: 2
-  },
-  {
-    question: 'What is 13 × 9?',
-    options: ['117', '108', '126', '99'],
-    correctAnswer: 0
-  },
-  {
-    question: 'What is 72 ÷ 9?',
-    options: ['6', '7', '8', '9'],
-    correctAnswer: 2
-  },
-  {
-    question: 'What is 15² - 10?',
-    options: ['215', '225', '235', '245'],
-    correctAnswer: 0
-  },
-  {
-    question: 'Solve: 3x - 7 = 14',
-    options: ['x = 7', 'x = 9', 'x = 8', 'x = 6'],
-    correctAnswer: 0
-  },
-  {
-    question: 'What is 17 + 35?',
-    options: ['42', '52', '62', '72'],
-    correctAnswer: 1
-  },
-  {
-    question: 'What is the square root of 144?',
-    options: ['10', '12', '14', '16'],
-    correctAnswer: 1
-  },
-  {
-    question: 'What is 99 - 45?',
-    options: ['44', '45', '54', '55'],
-    correctAnswer: 2
-  },
-  {
-    question: 'What is 6 × 12?',
-    options: ['62', '68', '72', '78'],
-    correctAnswer: 2
-  },
-  {
-    question: 'What is 4³?',
-    options: ['16', '32', '48', '64'],
-    correctAnswer: 3
-  },
-  {
-    question: 'What is 28 ÷ 4 + 9?',
-    options: ['16', '16.5', '14', '15'],
-    correctAnswer: 0
-  }
-];
-
 const QuizChallengeScreen = () => {
   const route = useRoute<QuizChallengeRouteProp>();
   const navigation = useNavigation<QuizChallengeNavigationProp>();
-  const { alarm } = route.params;
-
-  // Sound object for alarm
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
+  const { alarm, step = 0 } = route.params;
+  const stepLabel = getChallengeStepLabel(alarm, step);
+  const isLastStep = step >= getChallengeSteps(alarm).length - 1;
+  const requiredStreak = alarm.quizStreak ?? DEFAULT_QUIZ_STREAK;
 
   // Current time displayed
   const [currentTime, setCurrentTime] = useState('');
@@ -106,6 +38,7 @@ const QuizChallengeScreen = () => {
   const [answered, setAnswered] = useState(false);
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
   const [isCorrect, setIsCorrect] = useState(false);
+  const [streak, setStreak] = useState(0);
 
   // Format current time
   const getCurrentTime = () => {
@@ -118,16 +51,24 @@ const QuizChallengeScreen = () => {
     return `${formattedHours}:${formattedMinutes} ${ampm}`;
   };
 
-  // Get a random question from the pool
-  const getRandomQuestion = (): QuizQuestion => {
-    const randomIndex = Math.floor(Math.random() * QUIZ_QUESTIONS.length);
-    return QUIZ_QUESTIONS[randomIndex];
+  // Load the next question, never the same one twice in a row
+  const loadNextQuestion = async (previous?: QuizQuestion | null): Promise<QuizQuestion> => {
+    let question = await getNextQuizQuestion(alarm);
+    for (let tries = 0; previous && question.question === previous.question && tries < 5; tries++) {
+      question = await getNextQuizQuestion(alarm);
+    }
+    return question;
+  };
+
+  // Move on to a fresh question after showing the result
+  const showNextQuestion = async () => {
+    const nextQuestion = await loadNextQuestion(currentQuestion);
+    setAnswered(false);
+    setSelectedOption(null);
+    setCurrentQuestion(nextQuestion);
   };
 
   // Handle option selection
-  // Update the handleOptionSelect function in QuizChallengeScreen.tsx
-
-  // Handle option selection 
   const handleOptionSelect = (optionIndex: number) => {
     if (answered) return;
 
@@ -137,86 +78,62 @@ const QuizChallengeScreen = () => {
     const isAnswerCorrect = optionIndex === currentQuestion?.correctAnswer;
     setIsCorrect(isAnswerCorrect);
 
-    if (isAnswerCorrect) {
-      // Correct answer - completely stop and unload sound
-      if (sound) {
-        sound.stopAsync().then(() => {
-          sound.unloadAsync();
-        }).catch(error => {
-          console.error('Error stopping sound:', error);
-        });
+    if (isAnswerCorrect && streak + 1 >= requiredStreak) {
+      setStreak(streak + 1);
+
+      // Chained challenges move on to the next step after showing the result, and keep ringing
+      if (!isLastStep) {
+        setTimeout(() => goToNextChallengeStep(navigation, alarm, step), 1500);
+        return;
       }
 
-      // Cancel vibration
-      Vibration.cancel();
+      // Correct answer - stop the alarm sound and vibration
+      AlarmAudioService.stop();
+
+      // Alarm is dismissed - drop any pending snooze
+      cancelSnooze(alarm.id);
 
       // Important: Cancel the alarm notification that triggered this screen
-      if (alarm && alarm.notificationId) {
-        Notifications.dismissNotificationAsync(alarm.notificationId)
-          .catch(error => console.error('Error dismissing notification:', error));
-      }
+      dismissAlarmNotifications(alarm);
 
       // Wait a moment to show the result before dismissing
       setTimeout(() => {
         navigation.navigate('Home');
       }, 1500);
+    } else if (isAnswerCorrect) {
+      // Correct, but the streak isn't long enough yet
+      setStreak(streak + 1);
+      setTimeout(showNextQuestion, 1000);
     } else {
-      // Wrong answer - vibrate to indicate error
+      // Wrong answer - vibrate to indicate error and start the streak over
       Vibration.vibrate(500);
+      recordChallengeAttempt(alarm.id);
+      setStreak(0);
 
       // Wait a moment and then reset for a new question
-      setTimeout(() => {
-        setAnswered(false);
-        setSelectedOption(null);
-        setCurrentQuestion(getRandomQuestion());
-      }, 1500);
+      setTimeout(showNextQuestion, 1500);
     }
   };
 
-  // Load and play alarm sound
-  const playAlarmSound = async () => {
-    try {
-      const { sound } = await Audio.Sound.createAsync(
-        require('../../assets/alarm-sound.mp3'),
-        { shouldPlay: true, isLooping: true, volume: 1.0 }
-      );
-      setSound(sound);
-    } catch (error) {
-      console.error('Error playing alarm sound:', error);
+  // Feedback shown after an answer
+  const getFeedback = () => {
+    if (!isCorrect) {
+      return requiredStreak > 1 ? 'Incorrect! Streak reset - try again...' : 'Incorrect! Try again...';
+    }
+    if (streak >= requiredStreak) {
+      return isLastStep ? 'Correct! Alarm dismissed.' : 'Correct! On to the next challenge.';
     }
+    const remaining = requiredStreak - streak;
+    return `Correct! ${remaining} more in a row to go.`;
   };
 
   // Initialize alarm on component mount
   useEffect(() => {
-    // Setup audio
-    Audio.setAudioModeAsync({
-      allowsRecordingIOS: false,
-      staysActiveInBackground: true,
-      interruptionModeIOS: Audio.INTERRUPTION_MODE_IOS_DO_NOT_MIX,
-      playsInSilentModeIOS: true,
-      shouldDuckAndroid: true,
-      interruptionModeAndroid: Audio.INTERRUPTION_MODE_ANDROID_DO_NOT_MIX,
-      playThroughEarpieceAndroid: false,
-    });
-
-    // Play sound
-    playAlarmSound();
-
-    // Start vibration pattern
-    if (Platform.OS === 'android') {
-      // Android can use complex patterns (wait, vibrate, wait, vibrate, etc.)
-      Vibration.vibrate([500, 1000, 500, 1000], true);
-    } else {
-      // iOS needs a simpler approach
-      const vibrateInterval = setInterval(() => {
-        Vibration.vibrate();
-      }, 1500);
-
-      return () => clearInterval(vibrateInterval);
-    }
+    // Keep ringing - the sound carries over from the ringing screen
+    AlarmAudioService.start(alarm);
 
     // Set initial question
-    setCurrentQuestion(getRandomQuestion());
+    loadNextQuestion().then(setCurrentQuestion);
 
     // Update current time
     const timeInterval = setInterval(() => {
@@ -231,10 +148,6 @@ const QuizChallengeScreen = () => {
 
     // Cleanup function
     return () => {
-      if (sound) {
-        sound.unloadAsync();
-      }
-      Vibration.cancel();
       clearInterval(timeInterval);
       backHandler.remove();
     };
@@ -246,12 +159,29 @@ const QuizChallengeScreen = () => {
       <View style={styles.alarmInfo}>
         <Text style={styles.timeText}>{currentTime}</Text>
         <Text style={styles.alarmLabel}>{alarm?.label || 'Alarm'}</Text>
+        {stepLabel && <Text style={styles.stepText}>{stepLabel}</Text>}
       </View>
 
       {/* Quiz Container */}
       <View style={styles.quizContainer}>
+        {/* Streak Progress */}
+        {requiredStreak > 1 && (
+          <View style={styles.streakContainer}>
+            {Array.from({ length: requiredStreak }).map((_, index) => (
+              <View
+                key={index}
+                style={[styles.streakDot, index < streak && styles.streakDotFilled]}
+              />
+            ))}
+            <Text style={styles.streakText}>{streak} / {requiredStreak} in a row</Text>
+          </View>
+        )}
+
         {/* Quiz Question */}
         <View style={styles.questionContainer}>
+          {currentQuestion?.source && (
+            <Text style={styles.sourceText}>{currentQuestion.source}</Text>
+          )}
           <Text style={styles.questionText}>{currentQuestion?.question}</Text>
         </View>
 
@@ -281,7 +211,7 @@ const QuizChallengeScreen = () => {
               styles.feedbackText,
               isCorrect ? styles.correctFeedback : styles.wrongFeedback
             ]}>
-              {isCorrect ? 'Correct! Alarm dismissed.' : 'Incorrect! Try again...'}
+              {getFeedback()}
             </Text>
           </View>
         )}
@@ -310,11 +240,38 @@ const styles = StyleSheet.create({
     color: '#aaa',
     marginTop: 8,
   },
+  stepText: {
+    fontSize: 16,
+    color: '#2E7D87',
+    fontWeight: '600',
+    marginTop: 8,
+  },
   quizContainer: {
     flex: 1,
     paddingHorizontal: 24,
     marginTop: 20,
   },
+  streakContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  streakDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginHorizontal: 4,
+    backgroundColor: '#2a2a2a',
+  },
+  streakDotFilled: {
+    backgroundColor: '#2E7D87',
+  },
+  streakText: {
+    fontSize: 14,
+    color: '#aaa',
+    marginLeft: 8,
+  },
   questionContainer: {
     marginBottom: 36,
     padding: 20,
@@ -322,6 +279,13 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     alignItems: 'center',
   },
+  sourceText: {
+    fontSize: 13,
+    color: '#aaa',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
   questionText: {
     fontSize: 24,
     fontWeight: '500',
@@ -0,0 +1,265 @@
+import React, { useCallback, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../../App';
+import { QuizPack, getQuizPacks, importQuizPack, deleteQuizPack } from '../services/quizPackService';
+
+type QuizPacksScreenNavigationProp = StackNavigationProp<RootStackParamList, 'QuizPacks'>;
+
+// Shown to explain the file format
+const PACK_FORMAT_EXAMPLE = `{
+  "name": "Spanish verbs",
+  "questions": [
+    {
+      "question": "What does \\"correr\\" mean?",
+      "options": ["to eat", "to run", "to sleep"],
+      "correctAnswer": 1
+    }
+  ]
+}`;
+
+const QuizPacksScreen = () => {
+  const navigation = useNavigation<QuizPacksScreenNavigationProp>();
+  const [packs, setPacks] = useState<QuizPack[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadPacks = async () => {
+    setPacks(await getQuizPacks());
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPacks();
+    }, [])
+  );
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const pack = await importQuizPack();
+      if (pack) {
+        await loadPacks();
+      }
+    } catch (error) {
+      console.error('Error importing quiz pack:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'The quiz pack could not be imported.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Remove a pack after confirmation
+  const confirmDelete = (pack: QuizPack) => {
+    Alert.alert(
+      'Delete Pack',
+      `Remove "${pack.name}"? Alarms using it will keep asking their other questions.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteQuizPack(pack.id);
+            await loadPacks();
+          }
+        }
+      ]
+    );
+  };
+
+  const renderPack = ({ item }: { item: QuizPack }) => (
+    <View style={styles.packCard}>
+      <View style={styles.packIcon}>
+        <Feather name="book-open" size={20} color="#2E7D87" />
+      </View>
+      <View style={styles.packInfo}>
+        <Text style={styles.packName}>{item.name}</Text>
+        {item.description && <Text style={styles.packDescription}>{item.description}</Text>}
+        <Text style={styles.packMeta}>
+          {item.questions.length} {item.questions.length === 1 ? 'question' : 'questions'}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.deleteButton}>
+        <Feather name="trash-2" size={18} color="#888" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Feather name="arrow-left" size={24} color="#2E7D87" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Question Packs</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <FlatList
+        data={packs}
+        keyExtractor={pack => pack.id}
+        renderItem={renderPack}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={
+          <Text style={styles.introText}>
+            Quiz alarms mix questions from the packs you turn on with generated math.
+            A question isn't asked again for a week.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyCard}>
+            <Text style={styles.emptyTitle}>No packs yet</Text>
+            <Text style={styles.emptyText}>Import a JSON file shaped like this:</Text>
+            <Text style={styles.codeText}>{PACK_FORMAT_EXAMPLE}</Text>
+          </View>
+        }
+        ListFooterComponent={
+          <TouchableOpacity
+            style={[styles.importButton, isImporting && styles.disabledButton]}
+            onPress={handleImport}
+            disabled={isImporting}
+          >
+            {isImporting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Feather name="upload" size={18} color="#fff" />
+            )}
+            <Text style={styles.importButtonText}>Import Pack</Text>
+          </TouchableOpacity>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fd',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  content: {
+    padding: 16,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  packCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  packIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#e4f5f6',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  packDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  packMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  emptyCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  codeText: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    fontSize: 12,
+    color: '#333',
+    backgroundColor: '#f3f8f9',
+    borderRadius: 8,
+    padding: 12,
+  },
+  importButton: {
+    backgroundColor: '#2E7D87',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
+
+export default QuizPacksScreen;
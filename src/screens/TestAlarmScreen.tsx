@@ -63,6 +63,38 @@ const TestAlarmScreen = () => {
     triggerImmediateAlarm(testAlarm);
   };
 
+  // Test Memory challenge
+  const testMemoryChallenge = () => {
+    const testAlarm = {
+      id: 'test-alarm-4',
+      time: '9:45 AM',
+      label: 'Memory Challenge',
+      isActive: true,
+      mode: AlarmMode.MEMORY,
+      days: [],
+      sound: 'default'
+    };
+    
+    // Instead of just navigating, trigger a full alarm experience
+    triggerImmediateAlarm(testAlarm);
+  };
+
+  // Test Typing challenge
+  const testTypingChallenge = () => {
+    const testAlarm = {
+      id: 'test-alarm-5',
+      time: '10:00 AM',
+      label: 'Typing Challenge',
+      isActive: true,
+      mode: AlarmMode.TYPING,
+      days: [],
+      sound: 'default'
+    };
+    
+    // Instead of just navigating, trigger a full alarm experience
+    triggerImmediateAlarm(testAlarm);
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <Text style={styles.title}>Test Challenges</Text>
@@ -92,6 +124,22 @@ const TestAlarmScreen = () => {
           <Text style={styles.buttonText}>Test Captcha Challenge</Text>
           <Text style={styles.buttonDescription}>Enter the captcha text to dismiss</Text>
         </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={styles.button}
+          onPress={testMemoryChallenge}
+        >
+          <Text style={styles.buttonText}>Test Memory Challenge</Text>
+          <Text style={styles.buttonDescription}>Repeat a growing sequence of flashing tiles</Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={styles.button}
+          onPress={testTypingChallenge}
+        >
+          <Text style={styles.buttonText}>Test Typing Challenge</Text>
+          <Text style={styles.buttonDescription}>Type a passage exactly to dismiss</Text>
+        </TouchableOpacity>
       </View>
       
       <TouchableOpacity 
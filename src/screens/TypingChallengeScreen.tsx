@@ -0,0 +1,382 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  BackHandler,
+  Vibration,
+  Platform,
+  KeyboardAvoidingView,
+  ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../../App';
+import { cancelSnooze, dismissAlarmNotifications } from '../services/alarmService';
+import { recordChallengeAttempt } from '../services/ringingSessionService';
+import { AlarmAudioService } from '../services/alarmAudioService';
+import { getChallengeStepLabel, goToNextChallengeStep } from '../services/challengeRegistry';
+import { pickTypingPassage } from '../services/typingPassageService';
+import {
+  DEFAULT_TYPING_MIN_LENGTH,
+  getTypingDiff,
+  getTypingAccuracy,
+  getWordsPerMinute
+} from '../services/typingChallenge';
+
+type TypingChallengeRouteProp = RouteProp<RootStackParamList, 'TypingChallenge'>;
+type TypingChallengeNavigationProp = StackNavigationProp<RootStackParamList, 'TypingChallenge'>;
+
+// How long the result of a finished passage stays up before a failed attempt starts over
+const RETRY_DELAY_MS = 2500;
+
+const TypingChallengeScreen = () => {
+  const route = useRoute<TypingChallengeRouteProp>();
+  const navigation = useNavigation<TypingChallengeNavigationProp>();
+  const { alarm, step = 0 } = route.params;
+  const stepLabel = getChallengeStepLabel(alarm, step);
+
+  // Settings chosen for this alarm - 0 turns a requirement off
+  const minLength = alarm.typingMinLength ?? DEFAULT_TYPING_MIN_LENGTH;
+  const minAccuracy = alarm.typingMinAccuracy ?? 0;
+  const minWpm = alarm.typingMinWpm ?? 0;
+
+  // Current time displayed
+  const [currentTime, setCurrentTime] = useState('');
+
+  // Typing state
+  const [passage, setPassage] = useState('');
+  const [typed, setTyped] = useState('');
+  const [keystrokes, setKeystrokes] = useState(0);
+  const [correctKeystrokes, setCorrectKeystrokes] = useState(0);
+  const [pasteBlocked, setPasteBlocked] = useState(false);
+  const [result, setResult] = useState<{ passed: boolean; message: string } | null>(null);
+  const startedAtRef = useRef<number | null>(null);
+
+  // Format current time
+  const getCurrentTime = () => {
+    const now = new Date();
+    const hours = now.getHours();
+    const minutes = now.getMinutes();
+    const ampm = hours >= 12 ? 'PM' : 'AM';
+    const formattedHours = hours % 12 || 12;
+    const formattedMinutes = minutes < 10 ? `0${minutes}` : minutes;
+    return `${formattedHours}:${formattedMinutes} ${ampm}`;
+  };
+
+  // Start over with a new passage
+  const loadPassage = async (previous?: string) => {
+    const nextPassage = await pickTypingPassage(minLength, previous);
+    setPassage(nextPassage);
+    setTyped('');
+    setKeystrokes(0);
+    setCorrectKeystrokes(0);
+    setPasteBlocked(false);
+    setResult(null);
+    startedAtRef.current = null;
+  };
+
+  // Handle successful dismiss
+  const handleDismiss = () => {
+    // Chained challenges move on to the next step and keep ringing
+    if (goToNextChallengeStep(navigation, alarm, step)) return;
+
+    // Stop the alarm sound and vibration
+    AlarmAudioService.stop();
+
+    // Alarm is dismissed - drop any pending snooze
+    cancelSnooze(alarm.id);
+
+    // Important: Cancel the alarm notification that triggered this screen
+    dismissAlarmNotifications(alarm);
+
+    // Wait a moment to show success message before navigating back
+    setTimeout(() => {
+      navigation.navigate('Home');
+    }, 1500);
+  };
+
+  // Passage typed exactly - check the optional accuracy and speed requirements
+  const finishPassage = (finalKeystrokes: number, finalCorrect: number) => {
+    const accuracy = getTypingAccuracy(finalCorrect, finalKeystrokes);
+    const wpm = getWordsPerMinute(passage.length, Date.now() - (startedAtRef.current ?? Date.now()));
+    const stats = `${accuracy}% accuracy, ${wpm} words per minute`;
+
+    const problems: string[] = [];
+    if (minAccuracy > 0 && accuracy < minAccuracy) {
+      problems.push(`at least ${minAccuracy}% accuracy`);
+    }
+    if (minWpm > 0 && wpm < minWpm) {
+      problems.push(`at least ${minWpm} words per minute`);
+    }
+
+    if (problems.length === 0) {
+      setResult({ passed: true, message: `Done! ${stats}` });
+      handleDismiss();
+      return;
+    }
+
+    // Exact but too sloppy or too slow - try again with another passage
+    Vibration.vibrate(500);
+    recordChallengeAttempt(alarm.id);
+    setResult({ passed: false, message: `${stats}. You need ${problems.join(' and ')} - try another one...` });
+    setTimeout(() => loadPassage(passage), RETRY_DELAY_MS);
+  };
+
+  // Track every keystroke - text that appears more than a character at a time was pasted
+  const handleChangeText = (text: string) => {
+    if (result) return;
+
+    if (text.length > typed.length + 1) {
+      setPasteBlocked(true);
+      return;
+    }
+    setPasteBlocked(false);
+
+    let nextKeystrokes = keystrokes;
+    let nextCorrect = correctKeystrokes;
+    if (text.length === typed.length + 1) {
+      if (startedAtRef.current === null) {
+        startedAtRef.current = Date.now();
+      }
+      const index = text.length - 1;
+      nextKeystrokes += 1;
+      if (text[index] === passage[index]) {
+        nextCorrect += 1;
+      } else {
+        Vibration.vibrate(50);
+      }
+      setKeystrokes(nextKeystrokes);
+      setCorrectKeystrokes(nextCorrect);
+    }
+
+    setTyped(text);
+    if (text === passage) {
+      finishPassage(nextKeystrokes, nextCorrect);
+    }
+  };
+
+  // Initialize alarm on component mount
+  useEffect(() => {
+    // Keep ringing - the sound carries over from the ringing screen
+    AlarmAudioService.start(alarm);
+
+    // Pick the first passage
+    loadPassage();
+
+    // Update current time
+    const timeInterval = setInterval(() => {
+      setCurrentTime(getCurrentTime());
+    }, 1000);
+
+    // Prevent back button from closing the screen
+    const backHandler = BackHandler.addEventListener('hardwareBackPress', () => true);
+
+    // Update initial time
+    setCurrentTime(getCurrentTime());
+
+    // Cleanup function
+    return () => {
+      clearInterval(timeInterval);
+      backHandler.remove();
+    };
+  }, []);
+
+  // Requirements besides typing the passage exactly
+  const requirements = [
+    minAccuracy > 0 ? `${minAccuracy}% accuracy` : null,
+    minWpm > 0 ? `${minWpm} words per minute` : null,
+  ].filter(Boolean);
+
+  // Highlighting for each part of the passage
+  const segmentStyles = {
+    correct: styles.correctText,
+    wrong: styles.wrongText,
+    pending: styles.pendingText,
+    extra: styles.extraText,
+  };
+  const diff = getTypingDiff(passage, typed);
+  const mistakes = diff.some(segment => segment.status === 'wrong' || segment.status === 'extra');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Alarm Information */}
+      <View style={styles.alarmInfo}>
+        <Text style={styles.timeText}>{currentTime}</Text>
+        <Text style={styles.alarmLabel}>{alarm?.label || 'Alarm'}</Text>
+        {stepLabel && <Text style={styles.stepText}>{stepLabel}</Text>}
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.typingContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Instructions */}
+        <Text style={styles.instructionsText}>
+          Type the passage exactly to dismiss the alarm
+          {requirements.length > 0 ? ` - with ${requirements.join(' and ')}` : ''}
+        </Text>
+
+        {!passage ? (
+          <ActivityIndicator size="large" color="#2E7D87" />
+        ) : (
+          <>
+            {/* Passage with live highlighting of what's been typed */}
+            <ScrollView style={styles.passageContainer} contentContainerStyle={styles.passageContent}>
+              <Text style={styles.passageText}>
+                {diff.map((segment, index) => (
+                  <Text key={index} style={segmentStyles[segment.status]}>
+                    {segment.text}
+                  </Text>
+                ))}
+              </Text>
+            </ScrollView>
+
+            {/* Feedback */}
+            {result ? (
+              <View style={styles.resultContainer}>
+                <Feather
+                  name={result.passed ? 'check-circle' : 'x-circle'}
+                  size={32}
+                  color={result.passed ? '#2E7D87' : '#F44336'}
+                />
+                <Text style={[styles.resultText, !result.passed && styles.failedResultText]}>
+                  {result.passed ? 'Alarm dismissed!' : 'Not quite'}
+                </Text>
+                <Text style={styles.statsText}>{result.message}</Text>
+              </View>
+            ) : (
+              <Text style={[styles.statsText, (mistakes || pasteBlocked) && styles.warningText]}>
+                {pasteBlocked
+                  ? 'Pasting is turned off - type it yourself'
+                  : mistakes
+                    ? 'Fix the highlighted mistakes to continue'
+                    : `${typed.length} of ${passage.length} characters`}
+              </Text>
+            )}
+
+            {/* Typing Input - autocorrect, suggestions and pasting are all off */}
+            <TextInput
+              style={styles.input}
+              value={typed}
+              onChangeText={handleChangeText}
+              placeholder="Start typing..."
+              placeholderTextColor="#aaa"
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoComplete="off"
+              spellCheck={false}
+              contextMenuHidden
+              keyboardType={Platform.OS === 'android' ? 'visible-password' : 'default'}
+              multiline
+              editable={!result}
+              autoFocus
+            />
+          </>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  alarmInfo: {
+    alignItems: 'center',
+    marginTop: 40,
+    marginBottom: 20,
+  },
+  timeText: {
+    fontSize: 48,
+    fontWeight: '300',
+    color: '#fff',
+  },
+  alarmLabel: {
+    fontSize: 20,
+    color: '#aaa',
+    marginTop: 8,
+  },
+  stepText: {
+    fontSize: 16,
+    color: '#2E7D87',
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  typingContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  instructionsText: {
+    fontSize: 16,
+    color: '#fff',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  passageContainer: {
+    flexGrow: 0,
+    maxHeight: 200,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 12,
+  },
+  passageContent: {
+    padding: 16,
+  },
+  passageText: {
+    fontSize: 20,
+    lineHeight: 30,
+  },
+  correctText: {
+    color: '#4CAF50',
+  },
+  wrongText: {
+    color: '#fff',
+    backgroundColor: '#87392E',
+  },
+  pendingText: {
+    color: '#888',
+  },
+  extraText: {
+    color: '#fff',
+    backgroundColor: '#87392E',
+    textDecorationLine: 'line-through',
+  },
+  statsText: {
+    fontSize: 14,
+    color: '#aaa',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  warningText: {
+    color: '#F44336',
+  },
+  resultContainer: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  resultText: {
+    fontSize: 20,
+    color: '#fff',
+    marginTop: 8,
+  },
+  failedResultText: {
+    color: '#F44336',
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    color: '#fff',
+    borderRadius: 12,
+    fontSize: 18,
+    padding: 15,
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+});
+
+export default TypingChallengeScreen;
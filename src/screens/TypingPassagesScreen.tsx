@@ -0,0 +1,337 @@
+import React, { useCallback, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../../App';
+import {
+  TypingPassage,
+  MAX_PASSAGE_LENGTH,
+  getTypingPassages,
+  addTypingPassage,
+  updateTypingPassage,
+  deleteTypingPassage,
+  restoreDefaultTypingPassages
+} from '../services/typingPassageService';
+
+type TypingPassagesScreenNavigationProp = StackNavigationProp<RootStackParamList, 'TypingPassages'>;
+
+const TypingPassagesScreen = () => {
+  const navigation = useNavigation<TypingPassagesScreenNavigationProp>();
+  const [passages, setPassages] = useState<TypingPassage[]>([]);
+  const [newText, setNewText] = useState('');
+
+  // Passage being edited and its new text
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const loadPassages = async () => {
+    setPassages(await getTypingPassages());
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPassages();
+    }, [])
+  );
+
+  const handleAdd = async () => {
+    try {
+      await addTypingPassage(newText);
+      setNewText('');
+      await loadPassages();
+    } catch (error) {
+      console.error('Error adding typing passage:', error);
+      Alert.alert('Add Failed', error instanceof Error ? error.message : 'The passage could not be added.');
+    }
+  };
+
+  const startEdit = (passage: TypingPassage) => {
+    setEditingId(passage.id);
+    setEditText(passage.text);
+  };
+
+  const saveEdit = async () => {
+    if (!editingId) return;
+
+    try {
+      await updateTypingPassage(editingId, editText);
+      setEditingId(null);
+      await loadPassages();
+    } catch (error) {
+      console.error('Error updating typing passage:', error);
+      Alert.alert('Save Failed', error instanceof Error ? error.message : 'The passage could not be saved.');
+    }
+  };
+
+  // Remove a passage after confirmation
+  const confirmDelete = (passage: TypingPassage) => {
+    Alert.alert(
+      'Delete Passage',
+      `Remove "${passage.text}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTypingPassage(passage.id);
+            } catch (error) {
+              console.error('Error deleting typing passage:', error);
+              Alert.alert('Delete Failed', error instanceof Error ? error.message : 'The passage could not be deleted.');
+            }
+            await loadPassages();
+          }
+        }
+      ]
+    );
+  };
+
+  const confirmRestore = () => {
+    Alert.alert(
+      'Restore Defaults',
+      'Replace your passages with the built-in ones? Passages you added or changed will be lost.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            setEditingId(null);
+            setPassages(await restoreDefaultTypingPassages());
+          }
+        }
+      ]
+    );
+  };
+
+  const renderPassage = ({ item }: { item: TypingPassage }) => {
+    const isEditing = editingId === item.id;
+
+    return (
+      <View style={styles.passageCard}>
+        <View style={styles.passageInfo}>
+          {isEditing ? (
+            <TextInput
+              style={styles.editInput}
+              value={editText}
+              onChangeText={setEditText}
+              autoFocus
+              multiline
+              maxLength={MAX_PASSAGE_LENGTH}
+            />
+          ) : (
+            <Text style={styles.passageText}>{item.text}</Text>
+          )}
+          <Text style={styles.passageMeta}>
+            {(isEditing ? editText : item.text).length} characters
+          </Text>
+        </View>
+        {isEditing ? (
+          <>
+            <TouchableOpacity onPress={saveEdit} style={styles.iconButton}>
+              <Feather name="check" size={18} color="#2E7D87" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setEditingId(null)} style={styles.iconButton}>
+              <Feather name="x" size={18} color="#888" />
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <TouchableOpacity onPress={() => startEdit(item)} style={styles.iconButton}>
+              <Feather name="edit-2" size={18} color="#888" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.iconButton}>
+              <Feather name="trash-2" size={18} color="#888" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Feather name="arrow-left" size={24} color="#2E7D87" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Typing Passages</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <FlatList
+        data={passages}
+        keyExtractor={passage => passage.id}
+        renderItem={renderPassage}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <Text style={styles.introText}>
+            Typing alarms pick one of these at random. Passages shorter than an alarm's minimum
+            length are joined together until they're long enough.
+          </Text>
+        }
+        ListFooterComponent={
+          <>
+            <View style={styles.addCard}>
+              <TextInput
+                style={styles.addInput}
+                value={newText}
+                onChangeText={setNewText}
+                placeholder="Add a passage or affirmation"
+                placeholderTextColor="#aaa"
+                multiline
+                maxLength={MAX_PASSAGE_LENGTH}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, !newText.trim() && styles.disabledButton]}
+                onPress={handleAdd}
+                disabled={!newText.trim()}
+              >
+                <Feather name="plus" size={18} color="#fff" />
+                <Text style={styles.addButtonText}>Add Passage</Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity style={styles.restoreButton} onPress={confirmRestore}>
+              <Feather name="rotate-ccw" size={18} color="#2E7D87" />
+              <Text style={styles.restoreButtonText}>Restore built-in passages</Text>
+            </TouchableOpacity>
+          </>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fd',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  content: {
+    padding: 16,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  passageCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  passageInfo: {
+    flex: 1,
+  },
+  passageText: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+  },
+  editInput: {
+    fontSize: 15,
+    color: '#333',
+    borderBottomWidth: 1,
+    borderBottomColor: '#2E7D87',
+    paddingVertical: 2,
+  },
+  passageMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  addCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  addInput: {
+    fontSize: 15,
+    color: '#333',
+    minHeight: 60,
+    textAlignVertical: 'top',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  addButton: {
+    backgroundColor: '#2E7D87',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2E7D87',
+    marginTop: 4,
+  },
+  restoreButtonText: {
+    color: '#2E7D87',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+});
+
+export default TypingPassagesScreen;
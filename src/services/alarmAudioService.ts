@@ -0,0 +1,289 @@
+import { Platform, Vibration } from 'react-native';
+import { Audio, AVPlaybackSource, InterruptionModeAndroid, InterruptionModeIOS } from 'expo-av';
+import { Alarm } from '../types';
+import { AlarmSound, BUNDLED_SOUNDS, getSound } from './soundLibrary';
+
+/**
+ * Shared playback for the ringing alarm
+ * Owns the sound and vibration so moving between the ringing and challenge screens doesn't restart or cut them
+ */
+
+// Default fade-in for alarms without a setting of their own - 0 starts at full volume
+export const DEFAULT_FADE_IN_SECONDS = 0;
+
+// How often the fade-in raises the volume
+const FADE_STEP_MS = 250;
+
+// How often playback is checked in case the OS stopped it
+const KEEP_ALIVE_INTERVAL_MS = 5000;
+
+const VIBRATION_PATTERN = [500, 1000, 500, 1000];
+
+// Volume while the alarm is turned down so something else can be heard, e.g. the audio captcha
+const DUCKED_VOLUME = 0.1;
+
+// Alarm whose sound is currently playing
+let currentAlarmId: string | null = null;
+let sound: Audio.Sound | null = null;
+// Bumped on every start and stop so a slow load can tell it is no longer wanted
+let playbackId = 0;
+// Pending start, so concurrent calls for the same alarm share one sound
+let startPromise: Promise<void> | null = null;
+let playbackStartedAt = 0;
+let fadeInMs = 0;
+let isDucked = false;
+let fadeTimer: ReturnType<typeof setInterval> | null = null;
+let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+let vibrationTimer: ReturnType<typeof setInterval> | null = null;
+
+// Sound played from the sound picker, separate from the ringing alarm
+let previewSound: Audio.Sound | null = null;
+let previewId = 0;
+
+// Get the fade-in duration for an alarm in seconds
+export const getFadeInSeconds = (alarm: Alarm): number => {
+  return alarm.fadeInSeconds !== undefined && alarm.fadeInSeconds >= 0 ? alarm.fadeInSeconds : DEFAULT_FADE_IN_SECONDS;
+};
+
+// Volume for the current point of the fade-in - full volume once it is over
+const getTargetVolume = (): number => {
+  const fadeVolume = fadeInMs <= 0 ? 1 : Math.min((Date.now() - playbackStartedAt) / fadeInMs, 1);
+  return isDucked ? Math.min(fadeVolume, DUCKED_VOLUME) : fadeVolume;
+};
+
+const clearTimers = () => {
+  if (fadeTimer) {
+    clearInterval(fadeTimer);
+    fadeTimer = null;
+  }
+  if (keepAliveTimer) {
+    clearInterval(keepAliveTimer);
+    keepAliveTimer = null;
+  }
+  if (vibrationTimer) {
+    clearInterval(vibrationTimer);
+    vibrationTimer = null;
+  }
+};
+
+const startVibration = () => {
+  if (Platform.OS === 'android') {
+    // Android can use complex patterns (wait, vibrate, wait, vibrate, etc.)
+    Vibration.vibrate(VIBRATION_PATTERN, true);
+  } else {
+    // iOS needs a simpler approach
+    vibrationTimer = setInterval(() => {
+      Vibration.vibrate();
+    }, 1500);
+  }
+};
+
+// Raise the volume step by step until the fade-in is over
+const startFadeIn = () => {
+  if (fadeInMs <= 0) return;
+
+  fadeTimer = setInterval(async () => {
+    const volume = getTargetVolume();
+
+    try {
+      await sound?.setVolumeAsync(volume);
+    } catch (error) {
+      console.error('Error setting alarm volume:', error);
+    }
+
+    if (volume >= 1 && fadeTimer) {
+      clearInterval(fadeTimer);
+      fadeTimer = null;
+    }
+  }, FADE_STEP_MS);
+};
+
+// Restart playback if it stopped unexpectedly, e.g. after an audio interruption
+const startKeepAlive = () => {
+  keepAliveTimer = setInterval(async () => {
+    try {
+      const status = await sound?.getStatusAsync();
+      if (status && status.isLoaded && !status.isPlaying) {
+        console.log('Alarm sound stopped - restarting');
+        await sound?.playAsync();
+      }
+    } catch (error) {
+      console.error('Error checking alarm sound status:', error);
+    }
+  }, KEEP_ALIVE_INTERVAL_MS);
+};
+
+// Where to load a sound from - the browser plays the web URI, native uses the bundled asset or file
+const getPlaybackSource = (alarmSound: AlarmSound): AVPlaybackSource => {
+  return Platform.OS === 'web' ? { uri: alarmSound.webUri } : alarmSound.source;
+};
+
+// Load a sound that loops until it is stopped
+const createLoopingSound = async (source: AVPlaybackSource) => {
+  const { sound: newSound } = await Audio.Sound.createAsync(
+    source,
+    { shouldPlay: true, isLooping: true, volume: getTargetVolume() }
+  );
+  return newSound;
+};
+
+const loadAndPlay = async (alarm: Alarm, id: number) => {
+  fadeInMs = getFadeInSeconds(alarm) * 1000;
+  playbackStartedAt = Date.now();
+
+  // Vibration doesn't depend on the sound loading
+  startVibration();
+
+  try {
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: false,
+      staysActiveInBackground: true,
+      interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+      playsInSilentModeIOS: true,
+      shouldDuckAndroid: true,
+      interruptionModeAndroid: InterruptionModeAndroid.DoNotMix,
+      playThroughEarpieceAndroid: false,
+    });
+
+    const alarmSound = await getSound(alarm.sound);
+    let newSound: Audio.Sound;
+
+    try {
+      newSound = await createLoopingSound(getPlaybackSource(alarmSound));
+    } catch (error) {
+      // An imported file may be gone or unreadable - ring with the default tone instead
+      console.error(`Error loading sound ${alarmSound.name}, using the default tone:`, error);
+      newSound = await createLoopingSound(getPlaybackSource(BUNDLED_SOUNDS[0]));
+    }
+
+    // The alarm may have been dismissed or restarted while the sound was loading
+    if (id !== playbackId) {
+      await newSound.unloadAsync();
+      return;
+    }
+
+    sound = newSound;
+    startFadeIn();
+    startKeepAlive();
+    console.log(`Alarm sound playing for ${alarm.label}`);
+  } catch (error) {
+    // Vibration keeps going as the fallback alert
+    console.error('Error playing alarm sound:', error);
+  }
+};
+
+// Start ringing for an alarm - does nothing if this alarm is already ringing
+const start = async (alarm: Alarm) => {
+  if (currentAlarmId === alarm.id) {
+    await startPromise;
+    return;
+  }
+
+  // Only one alarm rings at a time
+  if (currentAlarmId) {
+    await stop();
+  }
+
+  currentAlarmId = alarm.id;
+  playbackId += 1;
+  stopPreview();
+  startPromise = loadAndPlay(alarm, playbackId);
+  await startPromise;
+};
+
+// Stop ringing and release the sound, e.g. on dismiss or snooze
+const stop = async () => {
+  const stoppingSound = sound;
+
+  currentAlarmId = null;
+  playbackId += 1;
+  sound = null;
+  isDucked = false;
+  startPromise = null;
+  clearTimers();
+  Vibration.cancel();
+
+  if (stoppingSound) {
+    try {
+      await stoppingSound.stopAsync();
+      await stoppingSound.unloadAsync();
+    } catch (error) {
+      console.error('Error stopping alarm sound:', error);
+    }
+  }
+};
+
+// Stop the sound picker preview
+const stopPreview = async () => {
+  const stoppingPreview = previewSound;
+
+  previewId += 1;
+  previewSound = null;
+
+  if (stoppingPreview) {
+    try {
+      await stoppingPreview.unloadAsync();
+    } catch (error) {
+      console.error('Error stopping sound preview:', error);
+    }
+  }
+};
+
+// Play a sound once so the user can hear it before picking it - onFinish runs when it plays to the end
+const preview = async (soundId: string, onFinish?: () => void) => {
+  await stopPreview();
+
+  // Never talk over a ringing alarm
+  if (currentAlarmId) return;
+
+  const id = previewId;
+  const alarmSound = await getSound(soundId);
+
+  try {
+    await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+
+    const { sound: newPreview } = await Audio.Sound.createAsync(getPlaybackSource(alarmSound), { shouldPlay: true, volume: 1.0 });
+
+    // Another preview may have started while this one was loading
+    if (id !== previewId) {
+      await newPreview.unloadAsync();
+      return;
+    }
+
+    previewSound = newPreview;
+    newPreview.setOnPlaybackStatusUpdate(status => {
+      if (status.isLoaded && status.didJustFinish && previewSound === newPreview) {
+        stopPreview();
+        onFinish?.();
+      }
+    });
+  } catch (error) {
+    console.error('Error previewing sound:', error);
+  }
+};
+
+// Turn the ringing alarm down while something else needs to be heard, and back up afterwards
+// Vibration carries on either way
+const setDucked = async (ducked: boolean) => {
+  isDucked = ducked;
+
+  try {
+    await sound?.setVolumeAsync(getTargetVolume());
+  } catch (error) {
+    console.error('Error setting alarm volume:', error);
+  }
+};
+
+// Whether an alarm is ringing - pass an ID to check a specific alarm
+const isRinging = (alarmId?: string): boolean => {
+  return alarmId ? currentAlarmId === alarmId : currentAlarmId !== null;
+};
+
+export const AlarmAudioService = {
+  start,
+  stop,
+  isRinging,
+  setDucked,
+  preview,
+  stopPreview,
+};
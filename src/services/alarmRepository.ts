@@ -0,0 +1,256 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alarm, AlarmMode } from '../types';
+import { ALARMS_STORAGE_KEY, normalizeAlarm, parseAlarmTime, runAlarmMigrations } from './alarmSchema';
+import { QUIZ_DIFFICULTIES } from './quizGenerator';
+import { CAPTCHA_DIFFICULTIES } from './captchaGenerator';
+import { FIND_BUTTON_DIFFICULTIES } from './findButtonDifficulty';
+import { MEMORY_SPEEDS, MEMORY_SYMBOL_OPTIONS } from './memorySequence';
+
+/**
+ * Single access point for stored alarms
+ * Writes are serialized so the background task and the UI can't overwrite each other
+ */
+
+export type AlarmListener = (alarms: Alarm[]) => void;
+
+// Changes accepted by update - either a patch or a function computing one from the current alarm
+export type AlarmChanges = Partial<Omit<Alarm, 'id'>> | ((alarm: Alarm) => Partial<Omit<Alarm, 'id'>>);
+
+const listeners = new Set<AlarmListener>();
+
+// Tail of the write queue - every write waits for the previous one to finish
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Check an alarm against the model before it is written - throws on invalid data
+export const validateAlarm = (alarm: Alarm) => {
+  const problems: string[] = [];
+
+  if (!alarm.id || typeof alarm.id !== 'string') {
+    problems.push('missing id');
+  }
+  if (!parseAlarmTime(alarm.time)) {
+    problems.push(`invalid time "${alarm.time}"`);
+  }
+  if (!Array.isArray(alarm.days) || alarm.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    problems.push('days must be weekday numbers from 0 to 6');
+  }
+  if (typeof alarm.isActive !== 'boolean') {
+    problems.push('isActive must be a boolean');
+  }
+  if (typeof alarm.label !== 'string') {
+    problems.push('label must be a string');
+  }
+  if (!(Object.values(AlarmMode) as string[]).includes(alarm.mode)) {
+    problems.push(`unknown mode "${alarm.mode}"`);
+  }
+  if (alarm.challengeSteps !== undefined) {
+    const steps = alarm.challengeSteps;
+    if (!Array.isArray(steps) || steps.some(step => !(Object.values(AlarmMode) as string[]).includes(step))) {
+      problems.push('challengeSteps must be a list of modes');
+    } else if (steps[0] !== alarm.mode) {
+      problems.push('challengeSteps must start with the alarm mode');
+    } else if (new Set(steps).size !== steps.length) {
+      problems.push('challengeSteps cannot repeat a mode');
+    }
+  }
+  if (typeof alarm.sound !== 'string' || !alarm.sound) {
+    problems.push('sound must be set');
+  }
+  if (alarm.snoozeMinutes !== undefined && !(alarm.snoozeMinutes > 0)) {
+    problems.push('snoozeMinutes must be positive');
+  }
+  if (alarm.maxSnoozes !== undefined && !(alarm.maxSnoozes >= 0)) {
+    problems.push('maxSnoozes cannot be negative');
+  }
+  if (alarm.fadeInSeconds !== undefined && !(alarm.fadeInSeconds >= 0)) {
+    problems.push('fadeInSeconds cannot be negative');
+  }
+  if (alarm.qrCodeIds !== undefined && (!Array.isArray(alarm.qrCodeIds) || alarm.qrCodeIds.some(id => typeof id !== 'string'))) {
+    problems.push('qrCodeIds must be a list of QR code IDs');
+  }
+  if (alarm.qrCodeOrder !== undefined && alarm.qrCodeOrder !== 'ordered' && alarm.qrCodeOrder !== 'unordered') {
+    problems.push(`unknown qrCodeOrder "${alarm.qrCodeOrder}"`);
+  }
+  if (alarm.quizDifficulty !== undefined && !QUIZ_DIFFICULTIES.some(level => level.id === alarm.quizDifficulty)) {
+    problems.push(`unknown quizDifficulty "${alarm.quizDifficulty}"`);
+  }
+  if (alarm.quizStreak !== undefined && !(Number.isInteger(alarm.quizStreak) && alarm.quizStreak >= 1)) {
+    problems.push('quizStreak must be a whole number of at least 1');
+  }
+  if (alarm.quizPackIds !== undefined && (!Array.isArray(alarm.quizPackIds) || alarm.quizPackIds.some(id => typeof id !== 'string'))) {
+    problems.push('quizPackIds must be a list of pack IDs');
+  }
+  if (alarm.captchaDifficulty !== undefined && !CAPTCHA_DIFFICULTIES.some(level => level.id === alarm.captchaDifficulty)) {
+    problems.push(`unknown captchaDifficulty "${alarm.captchaDifficulty}"`);
+  }
+  if (alarm.captchaAudio !== undefined && typeof alarm.captchaAudio !== 'boolean') {
+    problems.push('captchaAudio must be a boolean');
+  }
+  if (alarm.findButtonDifficulty !== undefined && !FIND_BUTTON_DIFFICULTIES.some(level => level.id === alarm.findButtonDifficulty)) {
+    problems.push(`unknown findButtonDifficulty "${alarm.findButtonDifficulty}"`);
+  }
+  if (alarm.memoryLength !== undefined && !(Number.isInteger(alarm.memoryLength) && alarm.memoryLength >= 1)) {
+    problems.push('memoryLength must be a whole number of at least 1');
+  }
+  if (alarm.memorySpeed !== undefined && !MEMORY_SPEEDS.some(speed => speed.id === alarm.memorySpeed)) {
+    problems.push(`unknown memorySpeed "${alarm.memorySpeed}"`);
+  }
+  if (alarm.memorySymbols !== undefined && !MEMORY_SYMBOL_OPTIONS.some(option => option.id === alarm.memorySymbols)) {
+    problems.push(`unknown memorySymbols "${alarm.memorySymbols}"`);
+  }
+  if (alarm.typingMinLength !== undefined && !(Number.isInteger(alarm.typingMinLength) && alarm.typingMinLength >= 1)) {
+    problems.push('typingMinLength must be a whole number of at least 1');
+  }
+  if (alarm.typingMinAccuracy !== undefined && !(alarm.typingMinAccuracy >= 0 && alarm.typingMinAccuracy <= 100)) {
+    problems.push('typingMinAccuracy must be a percentage from 0 to 100');
+  }
+  if (alarm.typingMinWpm !== undefined && !(alarm.typingMinWpm >= 0)) {
+    problems.push('typingMinWpm cannot be negative');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid alarm ${alarm.id}: ${problems.join(', ')}`);
+  }
+};
+
+// Read alarms straight from storage
+// Waits for the schema migration so old-shape records are never read or written back
+const readAlarms = async (): Promise<Alarm[]> => {
+  await runAlarmMigrations();
+
+  const alarmsJson = await AsyncStorage.getItem(ALARMS_STORAGE_KEY);
+  const rawAlarms: any[] = alarmsJson ? JSON.parse(alarmsJson) : [];
+
+  return rawAlarms
+    .map(normalizeAlarm)
+    .filter((alarm): alarm is Alarm => alarm !== null);
+};
+
+// Notify subscribers of the latest alarm list
+const notifyListeners = (alarms: Alarm[]) => {
+  listeners.forEach(listener => {
+    try {
+      listener(alarms);
+    } catch (error) {
+      console.error('Error in alarm listener:', error);
+    }
+  });
+};
+
+// Queue a read-modify-write so it runs after every earlier write has finished
+const enqueueWrite = <T>(mutate: (alarms: Alarm[]) => { alarms: Alarm[]; result: T }): Promise<T> => {
+  const task = writeQueue.then(async () => {
+    const current = await readAlarms();
+    const { alarms, result } = mutate(current);
+
+    alarms.forEach(validateAlarm);
+
+    await AsyncStorage.setItem(ALARMS_STORAGE_KEY, JSON.stringify(alarms));
+    notifyListeners(alarms);
+
+    return result;
+  });
+
+  // Keep the queue going even if this write fails
+  writeQueue = task.catch(() => undefined);
+
+  return task;
+};
+
+// List all stored alarms
+const list = async (): Promise<Alarm[]> => {
+  // Wait for pending writes so callers never see stale data
+  await writeQueue;
+  return readAlarms();
+};
+
+// Get a single alarm by ID
+const get = async (id: string): Promise<Alarm | null> => {
+  const alarms = await list();
+  return alarms.find(alarm => alarm.id === id) || null;
+};
+
+// Add a new alarm
+const create = (alarm: Alarm): Promise<Alarm> => {
+  return enqueueWrite(alarms => {
+    if (alarms.some(existing => existing.id === alarm.id)) {
+      throw new Error(`Alarm ${alarm.id} already exists`);
+    }
+
+    const normalized = normalizeAlarm(alarm);
+    if (!normalized) {
+      throw new Error(`Invalid alarm ${alarm.id}: invalid time "${alarm.time}"`);
+    }
+
+    return { alarms: [...alarms, normalized], result: normalized };
+  });
+};
+
+// Update an existing alarm - resolves to null if it no longer exists
+const update = (id: string, changes: AlarmChanges): Promise<Alarm | null> => {
+  return enqueueWrite(alarms => {
+    let updated: Alarm | null = null;
+
+    const updatedAlarms = alarms.map(alarm => {
+      if (alarm.id !== id) return alarm;
+
+      const patch = typeof changes === 'function' ? changes(alarm) : changes;
+      updated = normalizeAlarm({ ...alarm, ...patch, id }) || alarm;
+      return updated;
+    });
+
+    return { alarms: updatedAlarms, result: updated };
+  });
+};
+
+// Create an alarm, or fully replace the stored alarm with the same ID
+const save = (alarm: Alarm): Promise<Alarm> => {
+  return enqueueWrite(alarms => {
+    const normalized = normalizeAlarm(alarm);
+    if (!normalized) {
+      throw new Error(`Invalid alarm ${alarm.id}: invalid time "${alarm.time}"`);
+    }
+
+    const exists = alarms.some(existing => existing.id === alarm.id);
+    const updatedAlarms = exists
+      ? alarms.map(existing => (existing.id === alarm.id ? normalized : existing))
+      : [...alarms, normalized];
+
+    return { alarms: updatedAlarms, result: normalized };
+  });
+};
+
+// Delete an alarm - resolves to the deleted alarm, or null if it didn't exist
+const remove = (id: string): Promise<Alarm | null> => {
+  return enqueueWrite(alarms => {
+    const deleted = alarms.find(alarm => alarm.id === id) || null;
+    return { alarms: alarms.filter(alarm => alarm.id !== id), result: deleted };
+  });
+};
+
+// Subscribe to alarm changes - the listener is called with the current list right away
+const subscribe = (listener: AlarmListener): (() => void) => {
+  listeners.add(listener);
+
+  list()
+    .then(alarms => {
+      if (listeners.has(listener)) {
+        listener(alarms);
+      }
+    })
+    .catch(error => console.error('Error loading alarms for listener:', error));
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const AlarmRepository = {
+  list,
+  get,
+  create,
+  update,
+  save,
+  delete: remove,
+  subscribe,
+};
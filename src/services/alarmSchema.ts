@@ -0,0 +1,295 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alarm, AlarmMode } from '../types';
+
+/**
+ * Versioned storage schema for alarms
+ * Stored records are upgraded step by step on startup so old installs keep working
+ */
+
+export const ALARMS_STORAGE_KEY = 'alarms';
+const SCHEMA_VERSION_KEY = 'alarmsSchemaVersion';
+
+// Current version of the stored alarm schema
+// Version 1 is the original format, written before the version key existed
+export const ALARM_SCHEMA_VERSION = 12;
+
+// Defaults for fields missing from older records
+export const ALARM_DEFAULTS = {
+  label: 'Alarm',
+  sound: 'default',
+  mode: AlarmMode.STANDARD,
+  isActive: true,
+};
+
+// Every field of the canonical Alarm model - anything else is dropped
+const ALARM_FIELDS: (keyof Alarm)[] = [
+  'id',
+  'time',
+  'days',
+  'isActive',
+  'label',
+  'mode',
+  'challengeSteps',
+  'sound',
+  'notificationIds',
+  'qrCodeIds',
+  'qrCodeOrder',
+  'snoozeMinutes',
+  'maxSnoozes',
+  'fadeInSeconds',
+  'quizDifficulty',
+  'quizStreak',
+  'quizPackIds',
+  'captchaDifficulty',
+  'captchaAudio',
+  'findButtonDifficulty',
+  'memoryLength',
+  'memorySpeed',
+  'memorySymbols',
+  'typingMinLength',
+  'typingMinAccuracy',
+  'typingMinWpm',
+  'exactHours',
+  'exactMinutes',
+  'scheduledTime',
+  'lastTriggered',
+];
+
+// Parse a stored time string into 24-hour values
+// Accepts "7:05 AM", "07:05am", "7:5 pm" and 24-hour "19:05"
+export const parseAlarmTime = (time: string): { hours: number; minutes: number } | null => {
+  const match = /^\s*(\d{1,2}):(\d{1,2})\s*([AaPp][Mm])?\s*$/.exec(time || '');
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const period = match[3]?.toUpperCase();
+
+  if (minutes > 59) return null;
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'PM' && hours < 12) {
+      hours += 12;
+    } else if (period === 'AM' && hours === 12) {
+      hours = 0;
+    }
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return { hours, minutes };
+};
+
+// Format 24-hour values as the canonical display time, e.g. "7:05 AM"
+export const formatAlarmTime = (hours: number, minutes: number): string => {
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  const formattedHours = hours % 12 || 12;
+  const formattedMinutes = minutes < 10 ? `0${minutes}` : minutes;
+  return `${formattedHours}:${formattedMinutes} ${ampm}`;
+};
+
+// Normalize a time string to "h:mm AM" - returns null if it can't be parsed
+export const normalizeTimeString = (time: string): string | null => {
+  const parsed = parseAlarmTime(time);
+  return parsed ? formatAlarmTime(parsed.hours, parsed.minutes) : null;
+};
+
+// Fields, modes and defaults a record is normalized against
+interface RecordShape {
+  fields: readonly string[];
+  modes: readonly string[];
+  defaults: typeof ALARM_DEFAULTS;
+}
+
+// Fill in defaults, normalize the time and days, and drop fields outside the shape
+// Returns null for unusable records
+const normalizeRecord = (raw: any, shape: RecordShape): any | null => {
+  if (!raw || typeof raw !== 'object' || !raw.id) return null;
+
+  const time = normalizeTimeString(raw.time);
+  if (!time) return null;
+
+  const days = Array.isArray(raw.days)
+    ? Array.from(new Set<number>(raw.days.filter((day: any) => Number.isInteger(day) && day >= 0 && day <= 6))).sort((a, b) => a - b)
+    : [];
+
+  const record: any = {
+    ...raw,
+    id: String(raw.id),
+    time,
+    days,
+    isActive: typeof raw.isActive === 'boolean' ? raw.isActive : shape.defaults.isActive,
+    label: typeof raw.label === 'string' && raw.label.trim() ? raw.label : shape.defaults.label,
+    mode: shape.modes.includes(raw.mode) ? raw.mode : shape.defaults.mode,
+    sound: typeof raw.sound === 'string' && raw.sound ? raw.sound : shape.defaults.sound,
+  };
+
+  // Drop orphaned fields left behind by older versions of the model
+  Object.keys(record).forEach(key => {
+    if (!shape.fields.includes(key) || record[key] === undefined || record[key] === null) {
+      delete record[key];
+    }
+  });
+
+  return record;
+};
+
+// Bring a raw stored record into the canonical shape - returns null for unusable records
+export const normalizeAlarm = (raw: any): Alarm | null => {
+  return normalizeRecord(raw, {
+    fields: ALARM_FIELDS,
+    modes: Object.values(AlarmMode),
+    defaults: ALARM_DEFAULTS,
+  });
+};
+
+// The model as it was at schema version 2 - frozen so later model changes can't alter what that migration does
+const V2_RECORD_SHAPE: RecordShape = {
+  fields: [
+    'id',
+    'time',
+    'days',
+    'isActive',
+    'label',
+    'mode',
+    'sound',
+    'notificationId',
+    'qrCodeId',
+    'snoozeMinutes',
+    'maxSnoozes',
+    'exactHours',
+    'exactMinutes',
+    'scheduledTime',
+    'lastTriggered',
+  ],
+  modes: ['STANDARD', 'TINY_BUTTON', 'QUIZ', 'CAPTCHA', 'QR_CODE'],
+  defaults: {
+    label: 'Alarm',
+    sound: 'default',
+    mode: AlarmMode.STANDARD,
+    isActive: true,
+  },
+};
+
+// Migrations keyed by the version they upgrade to
+// Each one receives the records as written by the previous version
+const MIGRATIONS: Record<number, (alarms: any[]) => any[]> = {
+  // v2: fill in label and sound, normalize time strings, drop orphaned fields
+  2: (alarms) => alarms
+    .map(alarm => {
+      const normalized = normalizeRecord(alarm, V2_RECORD_SHAPE);
+      if (!normalized) {
+        console.warn('Dropping unreadable alarm record during migration:', alarm);
+      }
+      return normalized;
+    })
+    .filter(alarm => alarm !== null),
+
+  // v3: the single notificationId became a list of OS-scheduled notification IDs
+  3: (alarms) => alarms.map(({ notificationId, ...alarm }) => ({
+    ...alarm,
+    notificationIds: notificationId ? [notificationId] : undefined,
+  })),
+
+  // v4: alarm sound can fade in - existing alarms keep starting at full volume
+  4: (alarms) => alarms.map(alarm => ({
+    ...alarm,
+    fadeInSeconds: alarm.fadeInSeconds ?? 0,
+  })),
+
+  // v5: quiz questions are generated per difficulty - existing quiz alarms keep one medium question
+  5: (alarms) => alarms.map(alarm => (alarm.mode === AlarmMode.QUIZ ? {
+    ...alarm,
+    quizDifficulty: alarm.quizDifficulty ?? 'medium',
+    quizStreak: alarm.quizStreak ?? 1,
+  } : alarm)),
+
+  // v6: quiz alarms can mix in imported question packs - existing quiz alarms stay math only
+  6: (alarms) => alarms.map(alarm => (alarm.mode === AlarmMode.QUIZ ? {
+    ...alarm,
+    quizPackIds: alarm.quizPackIds ?? [],
+  } : alarm)),
+
+  // v7: captchas are rendered per difficulty - existing captcha alarms keep six characters and no audio
+  7: (alarms) => alarms.map(alarm => (alarm.mode === AlarmMode.CAPTCHA ? {
+    ...alarm,
+    captchaDifficulty: alarm.captchaDifficulty ?? 'medium',
+    captchaAudio: alarm.captchaAudio ?? false,
+  } : alarm)),
+
+  // v8: find button alarms get difficulty presets - existing ones keep the medium settings they always had
+  8: (alarms) => alarms.map(alarm => (alarm.mode === AlarmMode.TINY_BUTTON ? {
+    ...alarm,
+    findButtonDifficulty: alarm.findButtonDifficulty ?? 'medium',
+  } : alarm)),
+
+  // v9: QR code alarms can need several codes - the single qrCodeId became a list scanned in order
+  9: (alarms) => alarms.map(({ qrCodeId, ...alarm }) => (qrCodeId ? {
+    ...alarm,
+    qrCodeIds: [qrCodeId],
+    qrCodeOrder: 'ordered',
+  } : alarm)),
+
+  // v10: alarms can chain several challenges - existing alarms keep their single mode and need no changes
+  10: (alarms) => alarms,
+
+  // v11: new memory challenge with its own settings - no existing alarm uses it yet
+  11: (alarms) => alarms,
+
+  // v12: new typing challenge with its own settings - no existing alarm uses it yet
+  12: (alarms) => alarms,
+};
+
+// Read the schema version of the stored alarms
+const getStoredSchemaVersion = async (): Promise<number> => {
+  const versionString = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  return versionString ? parseInt(versionString, 10) : 1;
+};
+
+// Upgrade alarm records written by an older schema version to the current one
+export const migrateAlarmRecords = (alarms: any[], fromVersion: number): any[] => {
+  let migrated = alarms;
+
+  for (let version = fromVersion + 1; version <= ALARM_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) {
+      console.log(`Migrating alarms to schema version ${version}`);
+      migrated = migrate(migrated);
+    }
+  }
+
+  return migrated;
+};
+
+// Pending or finished migration run - shared so stored alarms are only upgraded once per start
+let migrationRun: Promise<void> | null = null;
+
+// Upgrade stored alarms to the current schema version
+// Safe to call from anywhere - every caller waits for the same run
+export const runAlarmMigrations = (): Promise<void> => {
+  if (!migrationRun) {
+    migrationRun = migrateStoredAlarms();
+  }
+  return migrationRun;
+};
+
+const migrateStoredAlarms = async (): Promise<void> => {
+  try {
+    const storedVersion = await getStoredSchemaVersion();
+
+    if (storedVersion >= ALARM_SCHEMA_VERSION) {
+      return;
+    }
+
+    const alarmsJson = await AsyncStorage.getItem(ALARMS_STORAGE_KEY);
+    const alarms = migrateAlarmRecords(alarmsJson ? JSON.parse(alarmsJson) : [], storedVersion);
+
+    await AsyncStorage.setItem(ALARMS_STORAGE_KEY, JSON.stringify(alarms));
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, ALARM_SCHEMA_VERSION.toString());
+
+    console.log(`Alarm storage migrated from version ${storedVersion} to ${ALARM_SCHEMA_VERSION}`);
+  } catch (error) {
+    console.error('Error migrating alarm storage:', error);
+  }
+};
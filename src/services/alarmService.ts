@@ -3,18 +3,31 @@ import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import * as BackgroundFetch from 'expo-background-fetch';
 import * as TaskManager from 'expo-task-manager';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Alarm, AlarmMode } from '../types';
+import { Alarm } from '../types';
+import { AlarmRepository } from './alarmRepository';
+import { parseAlarmTime } from './alarmSchema';
 import Constants from 'expo-constants';
 import { 
   isWeb, 
   requestWebNotificationPermissions, 
   showWebNotification, 
-  triggerWebAlarm, 
   scheduleWebAlarm,
   webAlarmTimeouts,
   cancelWebAlarm
 } from './webCompatibility';
+import {
+  recordSnooze,
+  claimSnoozeFire,
+  clearSnoozeState,
+  setSnoozeNotification,
+  getDueSnoozes,
+  getPendingSnoozes,
+  SnoozeState
+} from './snoozeService';
+import { recordMissedAlarm } from './missedAlarmService';
+import { markSessionSnoozed, finishRingingSession, getRingingSession } from './ringingSessionService';
+import { AlarmAudioService } from './alarmAudioService';
+import { dispatchRingingAlarm, navigateToChallenge } from './challengeRegistry';
 
 // Define background task names
 const BACKGROUND_ALARM_TASK = 'background-alarm-check';
@@ -48,7 +61,7 @@ TaskManager.defineTask(BACKGROUND_ALARM_TASK, async () => {
   }
 });
 
-// Register background task with more frequent checks
+// Register background task as a fallback - alarms ring through OS-scheduled notifications
 export const registerBackgroundTask = async () => {
   try {
     // Unregister any existing task first to avoid duplicates
@@ -125,8 +138,6 @@ export const requestNotificationPermissions = async () => {
 
 // Add notification listener to handle alarm triggers
 let notificationListener: any = null;
-// For web, we'll store active audio elements
-let webAudioElement: HTMLAudioElement | null = null;
 
 export const setupNotificationListener = (navigation: any) => {
   // For web platform, we don't use the same notification system
@@ -148,19 +159,12 @@ export const setupNotificationListener = (navigation: any) => {
     const data = notification.request.content.data;
     if (data && data.isAlarm) {
       console.log('Alarm notification received in foreground!');
-      // Navigate directly to the challenge screen based on alarm mode
-      const { alarm } = data as { alarm: Alarm };
+      const { alarm, snoozedUntil } = data as { alarm: Alarm; snoozedUntil?: number };
       
-      if (alarm.mode === AlarmMode.TINY_BUTTON) {
-        navigation.navigate('FindButtonChallenge', { alarm });
-      } else if (alarm.mode === AlarmMode.QUIZ) {
-        navigation.navigate('QuizChallenge', { alarm });
-      } else if (alarm.mode === 'QR_CODE' as AlarmMode) {
-        navigation.navigate('QRCodeChallenge', { alarm });
-      } else {
-        // Fallback to AlarmRinging screen if mode is unknown
-        navigation.navigate('AlarmRinging', { alarm });
-      }
+      // Arm the next occurrence now that this one has fired, or stop the snooze timer ringing it again
+      handleAlarmNotification(alarm, snoozedUntil);
+      
+      dispatchRingingAlarm(navigation, alarm);
     }
   });
 
@@ -169,104 +173,329 @@ export const setupNotificationListener = (navigation: any) => {
     console.log('Notification response received:', response.notification.request.content.data);
     const data = response.notification.request.content.data;
     if (data && data.isAlarm) {
-      const { alarm } = data as { alarm: Alarm };
+      const { alarm, snoozedUntil } = data as { alarm: Alarm; snoozedUntil?: number };
       
-      // Navigate directly to the challenge screen based on alarm mode
-      if (alarm.mode === AlarmMode.TINY_BUTTON) {
-        navigation.navigate('FindButtonChallenge', { alarm });
-      } else if (alarm.mode === AlarmMode.QUIZ) {
-        navigation.navigate('QuizChallenge', { alarm });
-      } else if (alarm.mode === 'QR_CODE' as AlarmMode) {
-        navigation.navigate('QRCodeChallenge', { alarm });
-      } else {
-        // Fallback to AlarmRinging screen if mode is unknown
-        navigation.navigate('AlarmRinging', { alarm });
-      }
+      // Arm the next occurrence in case the alarm fired while the app was in the background
+      handleAlarmNotification(alarm, snoozedUntil);
+      
+      dispatchRingingAlarm(navigation, alarm);
     }
   });
 
   return notificationListener;
 };
 
-// Check for alarms that should be triggered - improved version
-const checkForAlarms = async (): Promise<boolean> => {
+// Missed alarms still ring if they are noticed within this window, otherwise they are logged as missed
+export const MISSED_ALARM_GRACE_MINUTES = 15;
+
+// Catch-up pass for alarms whose scheduled time passed without being handled
+// An occurrence counts as handled once it was recorded as fired or a ringing session started for it
+// Anything else rings late within the grace window or is logged as missed beyond it, on every platform
+export const catchUpMissedAlarms = async (now: number = Date.now()): Promise<boolean> => {
+  let alarmTriggered = false;
+  
   try {
-    const alarmsJson = await AsyncStorage.getItem('alarms');
-    if (!alarmsJson) return false;
-    
-    const alarms: Alarm[] = JSON.parse(alarmsJson);
+    const alarms = await AlarmRepository.list();
     const activeAlarms = alarms.filter(alarm => alarm.isActive);
-    
-    const now = new Date();
-    let alarmTriggered = false;
+    const session = await getRingingSession();
     
     for (const alarm of activeAlarms) {
-      // Parse the alarm time
-      const [time, period] = alarm.time.split(' ');
-      const [hoursStr, minutesStr] = time.split(':');
-      
-      let hours = parseInt(hoursStr);
-      const minutes = parseInt(minutesStr);
-      
-      // Convert to 24-hour format
-      if (period === 'PM' && hours < 12) {
-        hours += 12;
-      } else if (period === 'AM' && hours === 12) {
-        hours = 0;
+      // Alarms that were never scheduled get a schedule now
+      if (!alarm.scheduledTime) {
+        await scheduleAlarmNotification(alarm);
+        continue;
       }
       
-      // Check if this alarm should trigger now - EXACT MATCH
-      const currentHours = now.getHours();
-      const currentMinutes = now.getMinutes();
+      // Not due yet, or this occurrence was already recorded as fired
+      if (alarm.scheduledTime > now) continue;
+      if (alarm.lastTriggered && alarm.lastTriggered >= alarm.scheduledTime) continue;
       
-      console.log(`Checking alarm ${alarm.label} set for ${hours}:${minutes} against current time ${currentHours}:${currentMinutes}`);
+      // A notification showing on its own doesn't mean anyone saw it - only a session started for it does
+      const rangInApp = !!session && session.alarmId === alarm.id &&
+        session.startedAt >= alarm.scheduledTime - FIRED_ALARM_TOLERANCE_MS;
       
-      // If the time matches exactly (no ±1 minute window)
-      if (hours === currentHours && minutes === currentMinutes) {
-        // Check if it's scheduled for today
-        const today = now.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-        
-        // If no days are selected (one-time alarm) or today is in the selected days
-        if (alarm.days.length === 0 || alarm.days.includes(today)) {
-          console.log(`Triggering alarm: ${alarm.label}`);
-          // Trigger the notification
+      if (!rangInApp) {
+        const lateByMinutes = (now - alarm.scheduledTime) / (60 * 1000);
+        if (lateByMinutes <= MISSED_ALARM_GRACE_MINUTES) {
+          console.log(`Triggering alarm ${alarm.label} ${Math.round(lateByMinutes)} minutes late`);
           await triggerAlarmNotification(alarm);
           alarmTriggered = true;
-          
-          // For one-time alarms, deactivate after triggering
-          if (alarm.days.length === 0) {
-            await deactivateOneTimeAlarm(alarm);
-          }
+        } else {
+          await recordMissedAlarm(alarm, alarm.scheduledTime);
         }
       }
+      
+      // Record the occurrence as handled and arm the next one
+      await handleAlarmFired(alarm);
     }
+  } catch (error) {
+    console.error('Error catching up on missed alarms:', error);
+  }
+  
+  return alarmTriggered;
+};
+
+// Fallback check for alarms - OS-scheduled notifications do the actual ringing
+const checkForAlarms = async (): Promise<boolean> => {
+  try {
+    // Ring or log any alarm whose time has passed
+    const alarmTriggered = await catchUpMissedAlarms();
+    
+    // Re-fire any snoozed alarms whose snooze period has run out
+    const snoozeTriggered = await checkForSnoozedAlarms();
     
-    return alarmTriggered;
+    return alarmTriggered || snoozeTriggered;
   } catch (error) {
     console.error('Error checking alarms:', error);
     return false;
   }
 };
 
+// In-memory timers for snoozed alarms while the app is running
+const snoozeTimeouts: Record<string, ReturnType<typeof setTimeout>> = {};
+
+// Re-fire a snoozed alarm with the same mode and challenge
+// The timer and the fallback check can both find the same snooze - only the one that claims it rings
+const fireSnoozedAlarm = async (state: SnoozeState): Promise<boolean> => {
+  if (state.snoozedUntil === null) return false;
+  
+  const claimed = await claimSnoozeFire(state.alarm.id, state.snoozedUntil);
+  if (!claimed) return false;
+  
+  if (snoozeTimeouts[state.alarm.id]) {
+    clearTimeout(snoozeTimeouts[state.alarm.id]);
+    delete snoozeTimeouts[state.alarm.id];
+  }
+  
+  console.log(`Snooze over - re-firing alarm: ${claimed.alarm.label}`);
+  await triggerAlarmNotification(claimed.alarm);
+  return true;
+};
+
+// Start an in-memory timer so the snoozed alarm fires on time while the app is alive
+const armSnoozeTimer = (state: SnoozeState) => {
+  if (state.snoozedUntil === null) return;
+  
+  if (snoozeTimeouts[state.alarm.id]) {
+    clearTimeout(snoozeTimeouts[state.alarm.id]);
+  }
+  
+  const delay = Math.max(state.snoozedUntil - Date.now(), 0);
+  snoozeTimeouts[state.alarm.id] = setTimeout(() => {
+    fireSnoozedAlarm(state);
+  }, delay);
+};
+
+// Check for snoozed alarms that should ring again
+const checkForSnoozedAlarms = async (): Promise<boolean> => {
+  const dueSnoozes = await getDueSnoozes();
+  let snoozeTriggered = false;
+  
+  for (const state of dueSnoozes) {
+    if (await fireSnoozedAlarm(state)) {
+      snoozeTriggered = true;
+    }
+  }
+  
+  return snoozeTriggered;
+};
+
+// Schedule an OS notification for the end of a snooze so the alarm rings even if the app is closed
+// The in-app timer rings it while the app is running - whichever fires first claims the snooze
+const scheduleSnoozeNotification = async (state: SnoozeState) => {
+  if (isWeb || state.snoozedUntil === null) return;
+  
+  try {
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      content: buildAlarmNotificationContent(state.alarm, state.snoozedUntil),
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(state.snoozedUntil),
+        channelId: ALARM_NOTIFICATION_CHANNEL,
+      },
+    });
+    
+    // The snooze may have been claimed or canceled while the notification was being scheduled
+    if (!(await setSnoozeNotification(state.alarm.id, state.snoozedUntil, notificationId))) {
+      await Notifications.cancelScheduledNotificationAsync(notificationId);
+    }
+  } catch (error) {
+    // The in-app timer and the fallback check still ring the alarm
+    console.error('Error scheduling snooze notification:', error);
+  }
+};
+
+// A snoozed alarm rang through its OS notification - claim the snooze so the timer doesn't ring it again
+const claimSnoozedAlarm = async (alarmId: string, snoozedUntil: number) => {
+  if (snoozeTimeouts[alarmId]) {
+    clearTimeout(snoozeTimeouts[alarmId]);
+    delete snoozeTimeouts[alarmId];
+  }
+  
+  await claimSnoozeFire(alarmId, snoozedUntil);
+};
+
+// Snooze a ringing alarm - returns null when no snoozes are left
+export const snoozeAlarm = async (alarm: Alarm): Promise<SnoozeState | null> => {
+  const state = await recordSnooze(alarm);
+  if (!state) return null;
+  
+  armSnoozeTimer(state);
+  await scheduleSnoozeNotification(state);
+  await markSessionSnoozed(alarm.id, state.snoozeCount);
+  console.log(`Alarm ${alarm.label} snoozed until ${new Date(state.snoozedUntil!).toLocaleTimeString()}`);
+  return state;
+};
+
+// Drop the snooze timer and state of an alarm, canceling its snooze notification
+const resetSnooze = async (alarmId: string) => {
+  if (snoozeTimeouts[alarmId]) {
+    clearTimeout(snoozeTimeouts[alarmId]);
+    delete snoozeTimeouts[alarmId];
+  }
+  
+  await clearSnoozeState(alarmId);
+};
+
+// Cancel any pending snooze, e.g. once the alarm is dismissed, deleted or turned off
+// This also ends the ringing session so it isn't resumed on the next start
+export const cancelSnooze = async (alarmId: string) => {
+  await resetSnooze(alarmId);
+  await finishRingingSession(alarmId);
+};
+
+// Re-arm timers for snoozed alarms after an app restart
+export const resumeSnoozedAlarms = async () => {
+  try {
+    const pendingSnoozes = await getPendingSnoozes();
+    console.log(`Resuming ${pendingSnoozes.length} snoozed alarms`);
+    
+    for (const state of pendingSnoozes) {
+      armSnoozeTimer(state);
+    }
+    
+    // Anything that ran out while the app was closed rings now
+    await checkForSnoozedAlarms();
+  } catch (error) {
+    console.error('Error resuming snoozed alarms:', error);
+  }
+};
+
 // Deactivate a one-time alarm after it has fired
 const deactivateOneTimeAlarm = async (alarm: Alarm) => {
   try {
-    const alarmsJson = await AsyncStorage.getItem('alarms');
-    if (!alarmsJson) return;
+    await AlarmRepository.update(alarm.id, current =>
+      current.days.length === 0 ? { isActive: false, notificationIds: undefined, scheduledTime: undefined } : {}
+    );
+    console.log(`One-time alarm ${alarm.label} deactivated after firing`);
+  } catch (error) {
+    console.error('Error deactivating one-time alarm:', error);
+  }
+};
+
+// How late a fired notification can be handled and still count as the scheduled occurrence
+const FIRED_ALARM_TOLERANCE_MS = 60 * 1000;
+
+// Whether an alarm's scheduled occurrence has passed without being recorded as fired
+const isAwaitingCatchUp = (alarm: Alarm, now: number = Date.now()): boolean => {
+  return !!alarm.scheduledTime && alarm.scheduledTime <= now
+    && !(alarm.lastTriggered && alarm.lastTriggered >= alarm.scheduledTime);
+};
+
+// Record that an alarm rang and arm its next occurrence
+// Safe to call more than once per firing - it only acts while the stored schedule is in the past
+export const handleAlarmFired = async (alarm: Alarm) => {
+  try {
+    const current = await AlarmRepository.get(alarm.id);
+    if (!current || !current.isActive) return;
     
-    const alarms: Alarm[] = JSON.parse(alarmsJson);
+    const now = Date.now();
+    if (!current.scheduledTime || current.scheduledTime > now + FIRED_ALARM_TOLERANCE_MS) return;
     
-    const updatedAlarms = alarms.map(a => {
-      if (a.id === alarm.id && a.days.length === 0) {
-        return { ...a, isActive: false };
-      }
-      return a;
+    await AlarmRepository.update(current.id, { lastTriggered: now });
+    
+    // A new occurrence gets the full number of snoozes, even if the last one was never dismissed
+    await resetSnooze(current.id);
+    
+    if (current.days.length === 0) {
+      // One-time alarms are done after firing
+      await deactivateOneTimeAlarm(current);
+    } else {
+      // Repeating alarms get their next occurrences scheduled
+      await scheduleAlarmNotification({ ...current, lastTriggered: now });
+    }
+  } catch (error) {
+    console.error('Error rearming fired alarm:', error);
+  }
+};
+
+// Handle an alarm notification that fired - snoozedUntil is set when it ends a snooze
+const handleAlarmNotification = (alarm: Alarm, snoozedUntil?: number) => {
+  if (snoozedUntil) {
+    claimSnoozedAlarm(alarm.id, snoozedUntil);
+  } else {
+    handleAlarmFired(alarm);
+  }
+};
+
+// Build the notification shown when an alarm rings - make it full screen intent
+// snoozedUntil marks the notification that ends a snooze
+const buildAlarmNotificationContent = (alarm: Alarm, snoozedUntil?: number) => {
+  // For Android, we need to create a full screen intent notification
+  const notificationContent = {
+    title: alarm.label || 'Alarm',
+    body: 'Wake up! Your alarm is ringing!', // More descriptive
+    data: { 
+      alarm,
+      snoozedUntil,
+      isAlarm: true, // Flag to identify this as an alarm notification
+      fullScreen: true, // Flag for full screen intent
+    },
+    // Critical for Android
+    sound: true,
+    priority: 'max',
+    vibrate: [0, 250, 250, 250, 250, 250],
+    sticky: true, // Make notification persistent
+  };
+
+  // Use a specific notification channel for alarms
+  if (Platform.OS === 'android') {
+    // @ts-ignore - Add android-specific properties
+    notificationContent.channelId = ALARM_NOTIFICATION_CHANNEL;
+    // @ts-ignore
+    notificationContent.android = {
+      priority: 'max',
+      // This makes it show as a full-screen activity
+      presentAsFullScreenIntent: true,
+      // Critical - makes it show even when app is in background
+      showWhen: true,
+      // Make it not dismissible by swipe
+      ongoing: true,
+      // Custom sound and vibration
+      vibrationPattern: [0, 250, 250, 250, 250, 250],
+      color: '#FF231F7C',
+    };
+  }
+
+  return notificationContent;
+};
+
+// Dismiss any alarm notifications still showing for an alarm once it has been dismissed
+export const dismissAlarmNotifications = async (alarm: Alarm) => {
+  if (isWeb) return;
+  
+  try {
+    const presented = await Notifications.getPresentedNotificationsAsync();
+    const alarmNotifications = presented.filter(notification => {
+      const data = notification.request.content.data as { alarm?: Alarm } | undefined;
+      return data?.alarm?.id === alarm.id;
     });
     
-    await AsyncStorage.setItem('alarms', JSON.stringify(updatedAlarms));
-    console.log(`One-time alarm ${alarm.label} deactivated after firing`);
+    for (const notification of alarmNotifications) {
+      await Notifications.dismissNotificationAsync(notification.request.identifier);
+    }
   } catch (error) {
-    console.error('Error deactivating one-time alarm:', error);
+    console.error('Error dismissing notification:', error);
   }
 };
 
@@ -283,60 +512,19 @@ export const triggerAlarmNotification = async (alarm: Alarm) => {
       requireInteraction: true
     });
     
-    // Play alarm sound
-    webAudioElement = triggerWebAlarm(alarm);
+    // Ring through the shared player so dismissing or snoozing stops it
+    AlarmAudioService.start(alarm);
     
     // If we have global navigation, navigate to the alarm screen
     if (global.navigation) {
-      if (alarm.mode === AlarmMode.TINY_BUTTON) {
-        global.navigation.navigate('FindButtonChallenge', { alarm });
-      } else if (alarm.mode === AlarmMode.QUIZ) {
-        global.navigation.navigate('QuizChallenge', { alarm });
-      } else if (alarm.mode === 'QR_CODE' as AlarmMode) {
-        global.navigation.navigate('QRCodeChallenge', { alarm });
-      } else {
-        global.navigation.navigate('AlarmRinging', { alarm });
-      }
+      dispatchRingingAlarm(global.navigation, alarm);
     }
     
     return true;
   }
 
   try {
-    // For Android, we need to create a full screen intent notification
-    const notificationContent = {
-      title: alarm.label || 'Alarm',
-      body: 'Wake up! Your alarm is ringing!', // More descriptive
-      data: { 
-        alarm,
-        isAlarm: true, // Flag to identify this as an alarm notification
-        fullScreen: true, // Flag for full screen intent
-      },
-      // Critical for Android
-      sound: true,
-      priority: 'max',
-      vibrate: [0, 250, 250, 250, 250, 250],
-      sticky: true, // Make notification persistent
-    };
-
-    // Use a specific notification channel for alarms
-    if (Platform.OS === 'android') {
-      // @ts-ignore - Add android-specific properties
-      notificationContent.channelId = ALARM_NOTIFICATION_CHANNEL;
-      // @ts-ignore
-      notificationContent.android = {
-        priority: 'max',
-        // This makes it show as a full-screen activity
-        presentAsFullScreenIntent: true,
-        // Critical - makes it show even when app is in background
-        showWhen: true,
-        // Make it not dismissible by swipe
-        ongoing: true,
-        // Custom sound and vibration
-        vibrationPattern: [0, 250, 250, 250, 250, 250],
-        color: '#FF231F7C',
-      };
-    }
+    const notificationContent = buildAlarmNotificationContent(alarm);
 
     // Schedule the notification immediately
     const notificationId = await Notifications.scheduleNotificationAsync({
@@ -360,15 +548,7 @@ export const triggerImmediateAlarm = async (alarm: Alarm) => {
     // For tests, directly navigate to the challenge screen instead of showing a notification
     if (global.navigation) {
       // Go directly to the challenge screen based on the alarm mode
-      if (alarm.mode === AlarmMode.TINY_BUTTON) {
-        global.navigation.navigate('FindButtonChallenge', { alarm });
-      } else if (alarm.mode === AlarmMode.QUIZ) {
-        global.navigation.navigate('QuizChallenge', { alarm });
-      } else if (alarm.mode === 'QR_CODE' as AlarmMode) {
-        global.navigation.navigate('QRCodeChallenge', { alarm });
-      } else {
-        global.navigation.navigate('AlarmRinging', { alarm });
-      }
+      navigateToChallenge(global.navigation, alarm);
       return 'direct-navigation';
     }
     
@@ -381,8 +561,64 @@ export const triggerImmediateAlarm = async (alarm: Alarm) => {
   }
 };
 
-// Schedule all pending alarms with exact timing
+// Get the next time an alarm should ring on a weekday (0 = Sunday), or at all when weekday is null
+const getNextOccurrence = (hours: number, minutes: number, weekday: number | null, now: Date = new Date()): Date => {
+  const occurrence = new Date(now);
+  occurrence.setHours(hours, minutes, 0, 0);
+  
+  if (weekday === null) {
+    // One-time alarm - today if the time is still ahead, otherwise tomorrow
+    if (occurrence <= now) {
+      occurrence.setDate(occurrence.getDate() + 1);
+    }
+    return occurrence;
+  }
+  
+  const dayOffset = (weekday - now.getDay() + 7) % 7;
+  occurrence.setDate(occurrence.getDate() + dayOffset);
+  
+  // Same weekday but the time has passed - ring next week
+  if (occurrence <= now) {
+    occurrence.setDate(occurrence.getDate() + 7);
+  }
+  
+  return occurrence;
+};
+
+// Get the upcoming trigger dates for an alarm - one per selected weekday, or a single one for one-time alarms
+const getTriggerDates = (alarm: Alarm, now: Date = new Date()): Date[] => {
+  const parsedTime = parseAlarmTime(alarm.time);
+  if (!parsedTime) {
+    throw new Error(`Invalid alarm time: ${alarm.time}`);
+  }
+  
+  const { hours, minutes } = parsedTime;
+  return alarm.days.length > 0
+    ? alarm.days.map(day => getNextOccurrence(hours, minutes, day, now))
+    : [getNextOccurrence(hours, minutes, null, now)];
+};
+
+// Cancel every OS notification scheduled for an alarm
+const cancelScheduledAlarmNotifications = async (alarm: Alarm) => {
+  for (const notificationId of alarm.notificationIds || []) {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(notificationId);
+    } catch (error) {
+      console.error(`Error canceling notification ${notificationId}:`, error);
+    }
+  }
+};
+
+// Schedule an alarm as OS-level timed notifications
+// Repeating alarms get one notification per selected weekday, rearmed after each firing
 export const scheduleAlarmNotification = async (alarm: Alarm) => {
+  // A missed occurrence is left to the catch-up pass, which rings it late or logs it before rearming
+  const storedAlarm = await AlarmRepository.get(alarm.id);
+  if (storedAlarm && isAwaitingCatchUp(storedAlarm)) {
+    console.log(`Alarm ${alarm.label} has a missed occurrence - leaving it to the catch-up pass`);
+    return storedAlarm;
+  }
+  
   // For web platform, use setTimeout instead of notifications
   if (isWeb) {
     console.log(`Scheduling web alarm: ${alarm.label} (${alarm.id})`);
@@ -391,86 +627,66 @@ export const scheduleAlarmNotification = async (alarm: Alarm) => {
     cancelWebAlarm(alarm.id);
     
     // Schedule new timeout
-    const timeoutId = scheduleWebAlarm(alarm, (scheduledAlarm) => {
+    const timeoutId = scheduleWebAlarm(alarm, async (scheduledAlarm) => {
+      delete webAlarmTimeouts[scheduledAlarm.id];
       triggerAlarmNotification(scheduledAlarm);
+      
+      // Arm the next occurrence
+      await handleAlarmFired(scheduledAlarm);
     });
     
     // Store the timeout ID
     webAlarmTimeouts[alarm.id] = timeoutId;
     
+    // Store when it rings so the next occurrence can be armed after it fires
+    const scheduledTime = Math.min(...getTriggerDates(alarm).map(date => date.getTime()));
+    await AlarmRepository.update(alarm.id, { scheduledTime });
+    
     return true;
   }
 
   try {
-    // Parse the time string
-    const [time, period] = alarm.time.split(' ');
-    const [hoursStr, minutesStr] = time.split(':');
-    
-    let hours = parseInt(hoursStr);
-    const minutes = parseInt(minutesStr);
-    
-    // Convert to 24-hour format
-    if (period === 'PM' && hours < 12) {
-      hours += 12;
-    } else if (period === 'AM' && hours === 12) {
-      hours = 0;
-    }
-    
-    // Create a Date object for the next occurrence of this alarm
-    const now = new Date();
-    const alarmDate = new Date();
-    alarmDate.setHours(hours);
-    alarmDate.setMinutes(minutes);
-    alarmDate.setSeconds(0);
-    alarmDate.setMilliseconds(0);
-    
-    // If the alarm time is in the past, schedule it for tomorrow
-    if (alarmDate <= now) {
-      alarmDate.setDate(alarmDate.getDate() + 1);
-    }
-    
-    // For recurring alarms, find the next occurrence
-    if (alarm.days && alarm.days.length > 0) {
-      const currentDay = now.getDay(); // 0-6, where 0 is Sunday
-      
-      // If today is not in the selected days or the time has passed
-      if (!alarm.days.includes(currentDay) || alarmDate <= now) {
-        // Find the next day that matches the pattern
-        let nextDayOffset = -1;
-        for (let i = 1; i <= 7; i++) {
-          const nextDay = (currentDay + i) % 7;
-          if (alarm.days.includes(nextDay)) {
-            nextDayOffset = i;
-            break;
-          }
-        }
-        
-        if (nextDayOffset > 0) {
-          // Set to the next matching day
-          alarmDate.setDate(now.getDate() + nextDayOffset);
-        }
+    // Cancel any notifications left over from the previous schedule
+    // Use the stored alarm in case the one passed in has stale notification IDs
+    await cancelScheduledAlarmNotifications(storedAlarm || alarm);
+    
+    const triggerDates = getTriggerDates(alarm);
+    
+    const notificationIds: string[] = [];
+    try {
+      for (const triggerDate of triggerDates) {
+        const notificationId = await Notifications.scheduleNotificationAsync({
+          content: buildAlarmNotificationContent(alarm),
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: triggerDate,
+            channelId: ALARM_NOTIFICATION_CHANNEL,
+          },
+        });
+        notificationIds.push(notificationId);
+        console.log(`Alarm "${alarm.label}" scheduled for ${triggerDate.toLocaleString()} (${notificationId})`);
       }
+    } catch (error) {
+      // Without OS notifications the fallback check still rings the alarm using the stored time
+      console.error('Error scheduling alarm notifications - relying on fallback check:', error);
+      for (const notificationId of notificationIds) {
+        await Notifications.cancelScheduledNotificationAsync(notificationId);
+      }
+      notificationIds.length = 0;
     }
     
-    console.log(`Scheduling alarm for ${alarmDate.toLocaleString()}`);
-    
-    // Cancel any existing notification for this alarm
-    if (alarm.notificationId) {
-      await Notifications.cancelScheduledNotificationAsync(alarm.notificationId);
-    }
-    
-    // Store exact timing information for the background task
-    const updatedAlarm = {
-      ...alarm,
-      exactHours: hours,
-      exactMinutes: minutes,
-      scheduledTime: alarmDate.getTime(),
+    // Store the notification IDs and exact timing for rearming and the fallback check
+    const schedule = {
+      notificationIds: notificationIds.length > 0 ? notificationIds : undefined,
+      exactHours: triggerDates[0].getHours(),
+      exactMinutes: triggerDates[0].getMinutes(),
+      scheduledTime: Math.min(...triggerDates.map(date => date.getTime())),
     };
+    const updatedAlarm = { ...alarm, ...schedule };
     
-    // Update the alarm in storage
-    await updateAlarmInStorage(updatedAlarm);
+    // Only patch the scheduling fields so concurrent edits aren't overwritten
+    await AlarmRepository.update(alarm.id, schedule);
     
-    console.log(`Alarm "${alarm.label}" scheduled for ${hours}:${minutes} ${period} on date ${alarmDate.toLocaleDateString()}`);
     return updatedAlarm;
   } catch (error) {
     console.error('Error scheduling alarm:', error);
@@ -486,38 +702,14 @@ export const cancelAlarmNotification = async (alarm: Alarm) => {
   }
 
   try {
-    if (alarm.notificationId) {
-      await Notifications.cancelScheduledNotificationAsync(alarm.notificationId);
-      
-      // Update the alarm in storage without notification ID
-      const updatedAlarm = {
-        ...alarm,
-        notificationId: undefined,
-      };
-      
-      await updateAlarmInStorage(updatedAlarm);
-    }
-  } catch (error) {
-    console.error('Error canceling alarm notification:', error);
-  }
-};
-
-// Update an alarm in storage
-const updateAlarmInStorage = async (updatedAlarm: Alarm) => {
-  try {
-    // Get all alarms
-    const alarmsJson = await AsyncStorage.getItem('alarms');
-    const alarms = alarmsJson ? JSON.parse(alarmsJson) : [];
-    
-    // Find and update the specific alarm
-    const updatedAlarms = alarms.map((alarm: Alarm) => 
-      alarm.id === updatedAlarm.id ? updatedAlarm : alarm
-    );
+    // Use the stored alarm so notifications scheduled since it was loaded are canceled too
+    const storedAlarm = await AlarmRepository.get(alarm.id);
+    await cancelScheduledAlarmNotifications(storedAlarm || alarm);
     
-    // Save back to storage
-    await AsyncStorage.setItem('alarms', JSON.stringify(updatedAlarms));
+    // Update the alarm in storage without notification IDs
+    await AlarmRepository.update(alarm.id, { notificationIds: undefined, scheduledTime: undefined });
   } catch (error) {
-    console.error('Error updating alarm in storage:', error);
+    console.error('Error canceling alarm notification:', error);
   }
 };
 
@@ -525,11 +717,10 @@ const updateAlarmInStorage = async (updatedAlarm: Alarm) => {
 export const scheduleAllActiveAlarms = async () => {
   try {
     // Get all alarms
-    const alarmsJson = await AsyncStorage.getItem('alarms');
-    const alarms = alarmsJson ? JSON.parse(alarmsJson) : [];
+    const alarms = await AlarmRepository.list();
     
     // Schedule only active alarms
-    const activeAlarms = alarms.filter((alarm: Alarm) => alarm.isActive);
+    const activeAlarms = alarms.filter(alarm => alarm.isActive);
     
     console.log(`Scheduling ${activeAlarms.length} active alarms`);
     
@@ -0,0 +1,385 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alarm, AlarmEvent, AlarmEventType, AlarmMode } from '../types';
+import { formatAlarmTime, parseAlarmTime } from './alarmSchema';
+
+/**
+ * Event log of everything that happens while alarms ring
+ * Analytics are computed from this log instead of being stored as running totals
+ */
+
+const ALARM_EVENTS_KEY = 'alarmEvents';
+
+// Daily running totals kept by older versions - replaced by the event log
+const LEGACY_STATISTICS_KEY = 'alarmStatistics';
+
+// Keep the log to a year of history
+const EVENT_RETENTION_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One ring of an alarm, from trigger to dismissal, rebuilt from the event log
+export interface AlarmOccurrence {
+  alarmId: string;
+  label: string;
+  mode: AlarmMode;
+  scheduledTime?: number;
+  firedAt: number;
+  dismissedAt?: number; // Missing while the alarm is still ringing or snoozed, or if it was never dismissed
+  timeToDismiss?: number;
+  snoozes: number;
+  attempts: number; // Failed challenge attempts, plus the one that dismissed the alarm
+}
+
+// Wake-up of a single day for the history chart, as minutes since midnight
+export interface WakeHistoryDay {
+  dayKey: string;
+  scheduledMinute: number | null;
+  wakeMinute: number | null;
+}
+
+// Average challenge attempts per alarm for one mode
+export interface ModeAttemptStats {
+  mode: AlarmMode;
+  alarms: number;
+  averageAttempts: number;
+}
+
+export interface AnalyticsSummary {
+  alarmsTriggered: number;
+  alarmsDismissed: number;
+  averageDismissSeconds: number | null;
+  averageWakeTime: string | null; // Display time, e.g. "7:15 AM"
+  mostUsedMode: AlarmMode | null;
+  noSnoozeStreak: number; // Mornings in a row with no snooze
+}
+
+// Tail of the write queue - every write waits for the previous one to finish
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Load the event log, oldest first
+export const getAlarmEvents = async (): Promise<AlarmEvent[]> => {
+  try {
+    await writeQueue;
+    const eventsJson = await AsyncStorage.getItem(ALARM_EVENTS_KEY);
+    return eventsJson ? JSON.parse(eventsJson) : [];
+  } catch (error) {
+    console.error('Error loading alarm events:', error);
+    return [];
+  }
+};
+
+// Get the occurrence of an alarm that rang at the given moment
+const getScheduledOccurrence = (alarm: Alarm, at: number): number | undefined => {
+  const parsed = parseAlarmTime(alarm.time);
+  if (!parsed) return undefined;
+
+  const occurrence = new Date(at);
+  occurrence.setHours(parsed.hours, parsed.minutes, 0, 0);
+
+  // An alarm ringing just after midnight may belong to the previous day
+  if (occurrence.getTime() > at + 60 * 1000) {
+    occurrence.setDate(occurrence.getDate() - 1);
+  }
+
+  return occurrence.getTime();
+};
+
+// Append an event to the log
+export const logAlarmEvent = (
+  type: AlarmEventType,
+  alarm: Alarm,
+  details: Pick<AlarmEvent, 'timeToDismiss'> = {}
+): Promise<void> => {
+  const timestamp = Date.now();
+  const event: AlarmEvent = {
+    id: `${timestamp}_${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    alarmId: alarm.id,
+    label: alarm.label,
+    mode: alarm.mode,
+    timestamp,
+    ...details,
+  };
+
+  if (type === 'triggered') {
+    event.scheduledTime = getScheduledOccurrence(alarm, timestamp);
+  }
+
+  const task = writeQueue.then(async () => {
+    const eventsJson = await AsyncStorage.getItem(ALARM_EVENTS_KEY);
+    const events: AlarmEvent[] = eventsJson ? JSON.parse(eventsJson) : [];
+
+    const cutoff = timestamp - EVENT_RETENTION_DAYS * DAY_MS;
+    const updatedEvents = [...events.filter(existing => existing.timestamp >= cutoff), event];
+
+    await AsyncStorage.setItem(ALARM_EVENTS_KEY, JSON.stringify(updatedEvents));
+  });
+
+  // Keep the queue going even if this write fails
+  writeQueue = task.catch(() => undefined);
+
+  return task.catch(error => {
+    console.error('Error logging alarm event:', error);
+  });
+};
+
+// Merge events from another log, e.g. a restored backup - resolves to the number of new events
+// Events already in the log are matched by ID and skipped
+export const mergeAlarmEvents = (incoming: AlarmEvent[]): Promise<number> => {
+  const task = writeQueue.then(async () => {
+    const eventsJson = await AsyncStorage.getItem(ALARM_EVENTS_KEY);
+    const events: AlarmEvent[] = eventsJson ? JSON.parse(eventsJson) : [];
+
+    const knownIds = new Set(events.map(event => event.id));
+    const added = incoming.filter(event => !knownIds.has(event.id));
+
+    const cutoff = Date.now() - EVENT_RETENTION_DAYS * DAY_MS;
+    const updatedEvents = [...events, ...added]
+      .filter(event => event.timestamp >= cutoff)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    await AsyncStorage.setItem(ALARM_EVENTS_KEY, JSON.stringify(updatedEvents));
+    return added.length;
+  });
+
+  // Keep the queue going even if this write fails
+  writeQueue = task.catch(() => undefined);
+
+  return task;
+};
+
+// Remove the daily totals older versions kept - resolves to the number of dismissals they held
+// They only counted QR code dismissals, without any times, so they can't be turned into events
+export const retireLegacyStatistics = async (): Promise<number> => {
+  try {
+    const statsJson = await AsyncStorage.getItem(LEGACY_STATISTICS_KEY);
+    if (statsJson === null) return 0;
+
+    let dismissals = 0;
+    try {
+      const stats = JSON.parse(statsJson);
+      Object.values(stats || {}).forEach((day: any) => {
+        dismissals += Number(day?.alarmsDismissed) || 0;
+      });
+    } catch (error) {
+      console.error('Unreadable legacy alarm statistics:', error);
+    }
+
+    await AsyncStorage.removeItem(LEGACY_STATISTICS_KEY);
+    console.log(`Retired legacy alarm statistics with ${dismissals} dismissals`);
+    return dismissals;
+  } catch (error) {
+    console.error('Error retiring legacy alarm statistics:', error);
+    return 0;
+  }
+};
+
+// Local calendar day of a timestamp, e.g. "2024-05-04"
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Minutes since midnight of a timestamp
+export const getMinuteOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+const average = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+// Count mornings in a row, newest first, where alarms rang and none were snoozed
+// Days without any alarm neither extend nor break the streak
+const getNoSnoozeStreak = (events: AlarmEvent[]): number => {
+  const days = new Map<string, { snoozed: boolean }>();
+
+  events.forEach(event => {
+    if (event.type !== 'triggered' && event.type !== 'snoozed') return;
+
+    const dayKey = getDayKey(event.timestamp);
+    const day = days.get(dayKey) || { snoozed: false };
+    if (event.type === 'snoozed') {
+      day.snoozed = true;
+    }
+    days.set(dayKey, day);
+  });
+
+  const newestFirst = Array.from(days.keys()).sort().reverse();
+  let streak = 0;
+
+  for (const dayKey of newestFirst) {
+    if (days.get(dayKey)!.snoozed) break;
+    streak += 1;
+  }
+
+  return streak;
+};
+
+// Rebuild alarm occurrences from the event log, oldest first
+// Events between a trigger and the next trigger of the same alarm belong to that occurrence
+export const getAlarmOccurrences = (events: AlarmEvent[]): AlarmOccurrence[] => {
+  const occurrences: AlarmOccurrence[] = [];
+  const open = new Map<string, AlarmOccurrence>();
+
+  [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(event => {
+      if (event.type === 'triggered') {
+        const occurrence: AlarmOccurrence = {
+          alarmId: event.alarmId,
+          label: event.label,
+          mode: event.mode,
+          scheduledTime: event.scheduledTime,
+          firedAt: event.timestamp,
+          snoozes: 0,
+          attempts: 0,
+        };
+        occurrences.push(occurrence);
+        open.set(event.alarmId, occurrence);
+        return;
+      }
+
+      const occurrence = open.get(event.alarmId);
+      if (!occurrence) return;
+
+      if (event.type === 'snoozed') {
+        occurrence.snoozes += 1;
+      } else if (event.type === 'challenge_attempt') {
+        occurrence.attempts += 1;
+      } else if (event.type === 'dismissed') {
+        occurrence.dismissedAt = event.timestamp;
+        occurrence.timeToDismiss = event.timeToDismiss ?? event.timestamp - occurrence.firedAt;
+        occurrence.attempts += 1;
+        open.delete(event.alarmId);
+      }
+    });
+
+  return occurrences;
+};
+
+// Day keys of the last N days, oldest first and ending today
+export const getRecentDayKeys = (days: number, now: number = Date.now()): string[] => {
+  const keys: string[] = [];
+  const date = new Date(now);
+
+  for (let i = 0; i < days; i++) {
+    keys.unshift(getDayKey(date.getTime()));
+    date.setDate(date.getDate() - 1);
+  }
+
+  return keys;
+};
+
+// Scheduled and actual wake-up time per day - the first dismissed alarm of each day counts
+export const getWakeHistory = (
+  occurrences: AlarmOccurrence[],
+  days: number,
+  now: number = Date.now()
+): WakeHistoryDay[] => {
+  const firstWakeByDay = new Map<string, AlarmOccurrence>();
+
+  occurrences.forEach(occurrence => {
+    if (occurrence.dismissedAt === undefined) return;
+
+    const dayKey = getDayKey(occurrence.firedAt);
+    const existing = firstWakeByDay.get(dayKey);
+    if (!existing || occurrence.firedAt < existing.firedAt) {
+      firstWakeByDay.set(dayKey, occurrence);
+    }
+  });
+
+  return getRecentDayKeys(days, now).map(dayKey => {
+    const occurrence = firstWakeByDay.get(dayKey);
+    return {
+      dayKey,
+      scheduledMinute: occurrence?.scheduledTime !== undefined ? getMinuteOfDay(occurrence.scheduledTime) : null,
+      wakeMinute: occurrence?.dismissedAt !== undefined ? getMinuteOfDay(occurrence.dismissedAt) : null,
+    };
+  });
+};
+
+// Average time to dismiss per day in seconds, for the calendar heatmap
+export const getDismissTimeByDay = (occurrences: AlarmOccurrence[]): Record<string, number> => {
+  const totals: Record<string, { seconds: number; count: number }> = {};
+
+  occurrences.forEach(occurrence => {
+    if (occurrence.timeToDismiss === undefined) return;
+
+    const dayKey = getDayKey(occurrence.firedAt);
+    const total = totals[dayKey] || { seconds: 0, count: 0 };
+    total.seconds += occurrence.timeToDismiss / 1000;
+    total.count += 1;
+    totals[dayKey] = total;
+  });
+
+  const averages: Record<string, number> = {};
+  Object.keys(totals).forEach(dayKey => {
+    averages[dayKey] = Math.round(totals[dayKey].seconds / totals[dayKey].count);
+  });
+  return averages;
+};
+
+// Average attempts needed to dismiss an alarm, per challenge mode, most attempts first
+export const getModeAttemptStats = (occurrences: AlarmOccurrence[]): ModeAttemptStats[] => {
+  const totals: Partial<Record<AlarmMode, { attempts: number; alarms: number }>> = {};
+
+  occurrences.forEach(occurrence => {
+    if (occurrence.dismissedAt === undefined) return;
+
+    const total = totals[occurrence.mode] || { attempts: 0, alarms: 0 };
+    total.attempts += occurrence.attempts;
+    total.alarms += 1;
+    totals[occurrence.mode] = total;
+  });
+
+  return (Object.keys(totals) as AlarmMode[])
+    .map(mode => ({
+      mode,
+      alarms: totals[mode]!.alarms,
+      averageAttempts: totals[mode]!.attempts / totals[mode]!.alarms,
+    }))
+    .sort((a, b) => b.averageAttempts - a.averageAttempts);
+};
+
+// Compute the analytics shown on the analytics screen
+export const summarizeAlarmEvents = (events: AlarmEvent[]): AnalyticsSummary => {
+  const triggered = events.filter(event => event.type === 'triggered');
+  const dismissed = events.filter(event => event.type === 'dismissed');
+
+  const dismissSeconds = average(
+    dismissed
+      .filter(event => event.timeToDismiss !== undefined)
+      .map(event => event.timeToDismiss! / 1000)
+  );
+
+  const wakeMinute = average(dismissed.map(event => getMinuteOfDay(event.timestamp)));
+
+  // Mode that rang the most alarms
+  const modeCounts: Partial<Record<AlarmMode, number>> = {};
+  triggered.forEach(event => {
+    modeCounts[event.mode] = (modeCounts[event.mode] || 0) + 1;
+  });
+  const mostUsedMode = (Object.keys(modeCounts) as AlarmMode[])
+    .sort((a, b) => modeCounts[b]! - modeCounts[a]!)[0] || null;
+
+  return {
+    alarmsTriggered: triggered.length,
+    alarmsDismissed: dismissed.length,
+    averageDismissSeconds: dismissSeconds === null ? null : Math.round(dismissSeconds),
+    averageWakeTime: wakeMinute === null
+      ? null
+      : formatAlarmTime(Math.floor(Math.round(wakeMinute) / 60) % 24, Math.round(wakeMinute) % 60),
+    mostUsedMode,
+    noSnoozeStreak: getNoSnoozeStreak(events),
+  };
+};
+
+// Load the event log and compute the analytics summary
+export const getAnalyticsSummary = async (): Promise<AnalyticsSummary> => {
+  const events = await getAlarmEvents();
+  return summarizeAlarmEvents(events);
+};
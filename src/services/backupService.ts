@@ -0,0 +1,447 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alarm, AlarmEvent, AlarmEventType, AlarmMode, QRCode } from '../types';
+import { AlarmRepository, validateAlarm } from './alarmRepository';
+import { ALARM_SCHEMA_VERSION, migrateAlarmRecords, normalizeAlarm } from './alarmSchema';
+import { cancelAlarmNotification, scheduleAllActiveAlarms } from './alarmService';
+import { getAlarmEvents, mergeAlarmEvents } from './analyticsService';
+import { shareTextFile } from './fileSharing';
+import { getAllQRCodes, getQRCodeKey } from './qrCodeService';
+import { QuizPack, getQuizPackProblem, getQuizPacks, restoreQuizPacks } from './quizPackService';
+import { TypingPassage, getTypingPassages, isTypingPassage, restoreTypingPassages } from './typingPassageService';
+import {
+  DEFAULT_SOUND_ID,
+  PortableSound,
+  getCustomSounds,
+  getPortableSounds,
+  isKnownSound,
+  restoreCustomSounds
+} from './soundLibrary';
+
+/**
+ * Versioned backup of alarms, QR codes, quiz packs, typing passages, imported sounds, alarm history and settings
+ * Restoring merges the backup into the current data - records with the same ID are replaced
+ */
+
+const BACKUP_FORMAT = 'alarmy-backup';
+
+// Current version of the backup file format
+// Version 2 added quiz packs, version 3 typing passages
+export const BACKUP_VERSION = 3;
+
+// Settings carried over in backups
+const SETTINGS_KEYS = ['debugMode'];
+
+// Scheduling state that only makes sense on the device that wrote it - rebuilt when alarms are rescheduled
+const DEVICE_ALARM_FIELDS: (keyof Alarm)[] = ['notificationIds', 'exactHours', 'exactMinutes', 'scheduledTime'];
+
+const EVENT_TYPES: AlarmEventType[] = ['triggered', 'snoozed', 'challenge_attempt', 'dismissed'];
+
+// Problems listed when a backup fails validation - the rest are summarized
+const MAX_LISTED_PROBLEMS = 5;
+
+export interface AlarmBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  alarmSchemaVersion: number;
+  alarms: Alarm[];
+  qrCodes: QRCode[];
+  quizPacks: QuizPack[];
+  typingPassages: TypingPassage[];
+  sounds: PortableSound[];
+  alarmEvents: AlarmEvent[];
+  settings: Record<string, string>;
+}
+
+// What restoring will do to one kind of record
+export interface RestoreChanges<T> {
+  added: T[];
+  replaced: T[];
+  unchanged: number;
+}
+
+export interface RestorePreview {
+  alarms: RestoreChanges<Alarm>;
+  qrCodes: RestoreChanges<QRCode>;
+  quizPacks: RestoreChanges<QuizPack>;
+  typingPassages: RestoreChanges<TypingPassage>;
+  sounds: RestoreChanges<PortableSound>;
+  settings: RestoreChanges<{ key: string; value: string }>;
+  newEvents: number;
+  // Alarms pointing at a sound or quiz pack that is neither in the backup nor on this device
+  // They are restored without it - the default tone, or their remaining packs
+  brokenReferences: string[];
+}
+
+const stripDeviceFields = (alarm: Alarm): Alarm => {
+  const portable = { ...alarm };
+  DEVICE_ALARM_FIELDS.forEach(field => {
+    delete portable[field];
+  });
+  return portable;
+};
+
+// Keys of a record that hold a value, in a fixed order - undefined fields are left out like in JSON
+const getDefinedKeys = (record: Record<string, unknown>) => {
+  return Object.keys(record).filter(key => record[key] !== undefined).sort();
+};
+
+// Deep-compare two stored records regardless of key order
+const isSameRecord = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b)
+      && a.length === b.length
+      && a.every((item, index) => isSameRecord(item, b[index]));
+  }
+
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  const recordA = a as Record<string, unknown>;
+  const recordB = b as Record<string, unknown>;
+  const keysA = getDefinedKeys(recordA);
+  const keysB = getDefinedKeys(recordB);
+  return keysA.length === keysB.length
+    && keysA.every((key, index) => key === keysB[index] && isSameRecord(recordA[key], recordB[key]));
+};
+
+const getStoredSettings = async (): Promise<Record<string, string>> => {
+  const entries = await AsyncStorage.multiGet(SETTINGS_KEYS);
+  const settings: Record<string, string> = {};
+  entries.forEach(([key, value]) => {
+    if (value !== null) {
+      settings[key] = value;
+    }
+  });
+  return settings;
+};
+
+// Collect everything that goes into a backup
+export const createBackup = async (): Promise<AlarmBackup> => {
+  const [alarms, qrCodes, quizPacks, typingPassages, sounds, alarmEvents, settings] = await Promise.all([
+    AlarmRepository.list(),
+    getAllQRCodes(),
+    getQuizPacks(),
+    getTypingPassages(),
+    getPortableSounds(),
+    getAlarmEvents(),
+    getStoredSettings(),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    alarmSchemaVersion: ALARM_SCHEMA_VERSION,
+    alarms: alarms.map(stripDeviceFields),
+    qrCodes,
+    quizPacks,
+    typingPassages,
+    sounds,
+    alarmEvents,
+    settings,
+  };
+};
+
+// Write a backup file and share or download it
+// Throws if the file can't be written or shared
+export const exportBackup = async (): Promise<AlarmBackup> => {
+  const backup = await createBackup();
+
+  await shareTextFile({
+    fileName: `alarmy-backup-${new Date(backup.createdAt).toISOString().split('T')[0]}.json`,
+    content: JSON.stringify(backup, null, 2),
+    mimeType: 'application/json',
+    uti: 'public.json',
+    dialogTitle: 'Save alarm backup',
+  });
+
+  return backup;
+};
+
+const isQRCode = (value: any): value is QRCode => {
+  return !!value
+    && typeof value.id === 'string' && !!value.id
+    && typeof value.data === 'string'
+    && typeof value.name === 'string'
+    && typeof value.timestamp === 'number'
+    && (value.generated === undefined || typeof value.generated === 'boolean')
+    && (value.kind === undefined || value.kind === 'qr' || value.kind === 'barcode');
+};
+
+const isPortableSound = (value: any): value is PortableSound => {
+  return !!value
+    && typeof value.id === 'string' && !!value.id
+    && typeof value.name === 'string'
+    && typeof value.dataUri === 'string' && value.dataUri.startsWith('data:')
+    && typeof value.importedAt === 'number';
+};
+
+const isAlarmEvent = (value: any): value is AlarmEvent => {
+  return !!value
+    && typeof value.id === 'string'
+    && EVENT_TYPES.includes(value.type)
+    && typeof value.alarmId === 'string'
+    && typeof value.label === 'string'
+    && (Object.values(AlarmMode) as string[]).includes(value.mode)
+    && typeof value.timestamp === 'number';
+};
+
+// Parse and validate the contents of a backup file
+// Throws with a readable message if the file can't be restored
+export const parseBackup = (json: string): AlarmBackup => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error('This file is not a valid backup.');
+  }
+
+  if (!raw || typeof raw !== 'object' || raw.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not an alarm backup.');
+  }
+  if (!Number.isInteger(raw.version) || raw.version < 1 || !Number.isInteger(raw.alarmSchemaVersion) || raw.alarmSchemaVersion < 1) {
+    throw new Error('This backup is missing its version information.');
+  }
+  if (raw.version > BACKUP_VERSION || raw.alarmSchemaVersion > ALARM_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app and try again.');
+  }
+
+  // Sections added in later versions are empty in older backups
+  if (raw.version < 2) {
+    raw = { ...raw, quizPacks: [] };
+  }
+  if (raw.version < 3) {
+    raw = { ...raw, typingPassages: [] };
+  }
+
+  const problems: string[] = [];
+  (['alarms', 'qrCodes', 'quizPacks', 'typingPassages', 'sounds', 'alarmEvents'] as const).forEach(section => {
+    if (!Array.isArray(raw[section])) {
+      problems.push(`${section} must be a list`);
+    }
+  });
+  if (!raw.settings || typeof raw.settings !== 'object') {
+    problems.push('settings must be an object');
+  }
+  if (problems.length > 0) {
+    throw new Error(`This backup is damaged: ${problems.join(', ')}.`);
+  }
+
+  // Bring alarms from older schema versions up to date before checking them
+  const alarms: Alarm[] = [];
+  migrateAlarmRecords(raw.alarms, raw.alarmSchemaVersion).forEach((record, index) => {
+    const alarm = normalizeAlarm(record);
+    if (!alarm) {
+      problems.push(`alarm ${index + 1} is unreadable`);
+      return;
+    }
+    try {
+      validateAlarm(alarm);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : `alarm ${alarm.id} is invalid`);
+      return;
+    }
+    if (alarms.some(existing => existing.id === alarm.id)) {
+      problems.push(`alarm ${alarm.id} appears twice`);
+      return;
+    }
+    alarms.push(stripDeviceFields(alarm));
+  });
+
+  raw.qrCodes.forEach((qrCode: any, index: number) => {
+    if (!isQRCode(qrCode)) {
+      problems.push(`QR code ${index + 1} is invalid`);
+    }
+  });
+
+  raw.quizPacks.forEach((pack: any, index: number) => {
+    const problem = getQuizPackProblem(pack);
+    if (problem) {
+      problems.push(`quiz pack ${index + 1} ${problem}`);
+    }
+  });
+
+  raw.typingPassages.forEach((passage: any, index: number) => {
+    if (!isTypingPassage(passage)) {
+      problems.push(`typing passage ${index + 1} is invalid`);
+    }
+  });
+
+  raw.sounds.forEach((sound: any, index: number) => {
+    if (!isPortableSound(sound)) {
+      problems.push(`sound ${index + 1} is invalid`);
+    }
+  });
+
+  raw.alarmEvents.forEach((event: any, index: number) => {
+    if (!isAlarmEvent(event)) {
+      problems.push(`history entry ${index + 1} is invalid`);
+    }
+  });
+
+  if (problems.length > 0) {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS).join('\n');
+    const more = problems.length > MAX_LISTED_PROBLEMS ? `\n...and ${problems.length - MAX_LISTED_PROBLEMS} more` : '';
+    throw new Error(`This backup is damaged:\n${listed}${more}`);
+  }
+
+  // Unknown settings are ignored so backups stay restorable when settings are retired
+  const settings: Record<string, string> = {};
+  SETTINGS_KEYS.forEach(key => {
+    if (typeof raw.settings[key] === 'string') {
+      settings[key] = raw.settings[key];
+    }
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : 0,
+    alarmSchemaVersion: ALARM_SCHEMA_VERSION,
+    alarms,
+    qrCodes: raw.qrCodes,
+    quizPacks: raw.quizPacks,
+    typingPassages: raw.typingPassages,
+    sounds: raw.sounds,
+    alarmEvents: raw.alarmEvents,
+    settings,
+  };
+};
+
+// Sort incoming records into added, replaced and unchanged
+const compareRecords = <T>(
+  incoming: T[],
+  current: T[],
+  getKey: (record: T) => string
+): RestoreChanges<T> => {
+  const currentByKey = new Map(current.map(record => [getKey(record), record]));
+  const changes: RestoreChanges<T> = { added: [], replaced: [], unchanged: 0 };
+
+  incoming.forEach(record => {
+    const existing = currentByKey.get(getKey(record));
+    if (!existing) {
+      changes.added.push(record);
+    } else if (isSameRecord(existing, record)) {
+      changes.unchanged += 1;
+    } else {
+      changes.replaced.push(record);
+    }
+  });
+
+  return changes;
+};
+
+// Drop references to sounds and quiz packs that won't exist after restoring
+// Resolves to the alarms as they will be restored and a description of each dropped reference
+const resolveReferences = (
+  alarms: Alarm[],
+  knownSounds: { id: string }[],
+  knownPacks: { id: string }[]
+): { alarms: Alarm[]; brokenReferences: string[] } => {
+  const brokenReferences: string[] = [];
+
+  const resolved = alarms.map(alarm => {
+    const name = alarm.label || alarm.time;
+    let changes: Partial<Alarm> = {};
+
+    if (!isKnownSound(alarm.sound, knownSounds)) {
+      brokenReferences.push(`"${name}" will ring with the default tone - its sound isn't in this backup`);
+      changes = { ...changes, sound: DEFAULT_SOUND_ID };
+    }
+
+    const quizPackIds = alarm.quizPackIds?.filter(id => knownPacks.some(pack => pack.id === id));
+    if (alarm.quizPackIds && quizPackIds && quizPackIds.length < alarm.quizPackIds.length) {
+      const missing = alarm.quizPackIds.length - quizPackIds.length;
+      brokenReferences.push(`"${name}" loses ${missing} quiz ${missing === 1 ? 'pack' : 'packs'} that aren't in this backup`);
+      changes = { ...changes, quizPackIds };
+    }
+
+    return Object.keys(changes).length > 0 ? { ...alarm, ...changes } : alarm;
+  });
+
+  return { alarms: resolved, brokenReferences };
+};
+
+// Work out what restoring a backup would change, without writing anything
+export const previewRestore = async (backup: AlarmBackup): Promise<RestorePreview> => {
+  const [alarms, qrCodes, quizPacks, typingPassages, customSounds, events, settings] = await Promise.all([
+    AlarmRepository.list(),
+    getAllQRCodes(),
+    getQuizPacks(),
+    getTypingPassages(),
+    getCustomSounds(),
+    getAlarmEvents(),
+    getStoredSettings(),
+  ]);
+
+  const knownEventIds = new Set(events.map(event => event.id));
+  const toEntries = (values: Record<string, string>) => Object.keys(values).map(key => ({ key, value: values[key] }));
+
+  // Sounds and packs on this device or in the backup are there once the backup is restored
+  const { alarms: restoredAlarms, brokenReferences } = resolveReferences(
+    backup.alarms,
+    [...customSounds, ...backup.sounds],
+    [...quizPacks, ...backup.quizPacks]
+  );
+
+  // Sounds on this device are compared by their metadata - reading every file back just to compare isn't worth it
+  const currentSounds = customSounds.map(sound => {
+    const restored = backup.sounds.find(backupSound => backupSound.id === sound.id);
+    return { id: sound.id, name: sound.name, importedAt: sound.importedAt, dataUri: restored?.dataUri ?? sound.uri };
+  });
+
+  return {
+    alarms: compareRecords(restoredAlarms, alarms.map(stripDeviceFields), alarm => alarm.id),
+    qrCodes: compareRecords(backup.qrCodes, qrCodes, qrCode => qrCode.id),
+    quizPacks: compareRecords(backup.quizPacks, quizPacks, pack => pack.id),
+    typingPassages: compareRecords(backup.typingPassages, typingPassages, passage => passage.id),
+    sounds: compareRecords(backup.sounds, currentSounds, sound => sound.id),
+    settings: compareRecords(toEntries(backup.settings), toEntries(settings), entry => entry.key),
+    newEvents: backup.alarmEvents.filter(event => !knownEventIds.has(event.id)).length,
+    brokenReferences,
+  };
+};
+
+// Write a backup into storage and reschedule every active alarm
+// Resolves to the changes that were made
+export const restoreBackup = async (backup: AlarmBackup): Promise<RestorePreview> => {
+  const preview = await previewRestore(backup);
+
+  // Sounds and packs go first so restored alarms never point at something missing
+  await restoreCustomSounds([...preview.sounds.added, ...preview.sounds.replaced]);
+  await restoreQuizPacks([...preview.quizPacks.added, ...preview.quizPacks.replaced]);
+  await restoreTypingPassages([...preview.typingPassages.added, ...preview.typingPassages.replaced]);
+
+  // Clear the old schedule of alarms that are about to be replaced
+  for (const alarm of preview.alarms.replaced) {
+    const existing = await AlarmRepository.get(alarm.id);
+    if (existing) {
+      await cancelAlarmNotification(existing);
+    }
+  }
+
+  for (const alarm of [...preview.alarms.added, ...preview.alarms.replaced]) {
+    await AlarmRepository.save(alarm);
+  }
+
+  const entries: [string, string][] = [
+    ...[...preview.qrCodes.added, ...preview.qrCodes.replaced]
+      .map((qrCode): [string, string] => [getQRCodeKey(qrCode.id), JSON.stringify(qrCode)]),
+    ...[...preview.settings.added, ...preview.settings.replaced]
+      .map((entry): [string, string] => [entry.key, entry.value]),
+  ];
+  if (entries.length > 0) {
+    await AsyncStorage.multiSet(entries);
+  }
+
+  await mergeAlarmEvents(backup.alarmEvents);
+
+  await scheduleAllActiveAlarms();
+
+  console.log(
+    `Restored backup: ${preview.alarms.added.length} alarms added, ${preview.alarms.replaced.length} replaced`
+  );
+  return preview;
+};
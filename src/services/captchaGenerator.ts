@@ -0,0 +1,200 @@
+import { CaptchaDifficulty } from '../types';
+
+/**
+ * Distorted captchas for the captcha challenge, described as shapes for an SVG renderer
+ * Each character is rotated, skewed and moved off the baseline, with noise drawn over the top
+ */
+
+export const DEFAULT_CAPTCHA_DIFFICULTY: CaptchaDifficulty = 'medium';
+
+// Characters that are easy to mix up (0/O, 1/I/l) are left out
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const LOWERCASE = 'abcdefghjkmnpqrstuvwxyz';
+const DIGITS = '23456789';
+
+interface CaptchaSettings {
+  length: number;
+  characters: string;
+  caseSensitive: boolean;
+  maxRotation: number; // Degrees either way
+  maxSkew: number; // Degrees either way
+  warp: number; // Height of the wave the characters sit on, in pixels
+  noiseLines: number;
+  noiseDots: number;
+}
+
+const CAPTCHA_SETTINGS: Record<CaptchaDifficulty, CaptchaSettings> = {
+  easy: {
+    length: 4,
+    characters: UPPERCASE + DIGITS,
+    caseSensitive: false,
+    maxRotation: 15,
+    maxSkew: 8,
+    warp: 4,
+    noiseLines: 3,
+    noiseDots: 15,
+  },
+  medium: {
+    length: 6,
+    characters: UPPERCASE + DIGITS,
+    caseSensitive: false,
+    maxRotation: 25,
+    maxSkew: 15,
+    warp: 8,
+    noiseLines: 6,
+    noiseDots: 30,
+  },
+  hard: {
+    length: 7,
+    characters: UPPERCASE + LOWERCASE + DIGITS,
+    caseSensitive: true,
+    maxRotation: 35,
+    maxSkew: 20,
+    warp: 12,
+    noiseLines: 9,
+    noiseDots: 45,
+  },
+};
+
+export const CAPTCHA_DIFFICULTIES: { id: CaptchaDifficulty; name: string; description: string }[] = [
+  { id: 'easy', name: 'Easy', description: '4 characters, light distortion' },
+  { id: 'medium', name: 'Medium', description: '6 characters, moderate distortion' },
+  { id: 'hard', name: 'Hard', description: '7 characters, mixed case that must match, heavy distortion' },
+];
+
+export const CAPTCHA_WIDTH = 280;
+export const CAPTCHA_HEIGHT = 90;
+
+// One drawn character
+export interface CaptchaGlyph {
+  char: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  rotation: number;
+  skewX: number;
+  scaleX: number;
+  color: string;
+}
+
+export interface CaptchaNoiseLine {
+  path: string;
+  color: string;
+  width: number;
+}
+
+export interface CaptchaNoiseDot {
+  cx: number;
+  cy: number;
+  r: number;
+  color: string;
+}
+
+export interface Captcha {
+  text: string;
+  caseSensitive: boolean;
+  width: number;
+  height: number;
+  background: string;
+  glyphs: CaptchaGlyph[];
+  lines: CaptchaNoiseLine[];
+  dots: CaptchaNoiseDot[];
+}
+
+type Random = () => number;
+
+const between = (min: number, max: number, random: Random) => min + random() * (max - min);
+
+// Jittered colour in a random hue - dark enough to read on the light background
+const randomColor = (random: Random, lightness: [number, number] = [20, 45]) => {
+  const hue = Math.round(between(0, 360, random));
+  const saturation = Math.round(between(45, 85, random));
+  const light = Math.round(between(lightness[0], lightness[1], random));
+  return `hsl(${hue}, ${saturation}%, ${light}%)`;
+};
+
+// Curve across the whole image, crossing the characters
+const randomNoisePath = (random: Random) => {
+  const startY = between(0, CAPTCHA_HEIGHT, random);
+  const endY = between(0, CAPTCHA_HEIGHT, random);
+  const control1 = `${between(CAPTCHA_WIDTH * 0.2, CAPTCHA_WIDTH * 0.4, random)} ${between(-20, CAPTCHA_HEIGHT + 20, random)}`;
+  const control2 = `${between(CAPTCHA_WIDTH * 0.6, CAPTCHA_WIDTH * 0.8, random)} ${between(-20, CAPTCHA_HEIGHT + 20, random)}`;
+  return `M 0 ${startY.toFixed(1)} C ${control1} ${control2} ${CAPTCHA_WIDTH} ${endY.toFixed(1)}`;
+};
+
+// Generate a captcha for the given difficulty
+export const generateCaptcha = (
+  difficulty: CaptchaDifficulty = DEFAULT_CAPTCHA_DIFFICULTY,
+  random: Random = Math.random
+): Captcha => {
+  const settings = CAPTCHA_SETTINGS[difficulty] || CAPTCHA_SETTINGS[DEFAULT_CAPTCHA_DIFFICULTY];
+
+  let text = '';
+  for (let i = 0; i < settings.length; i++) {
+    text += settings.characters.charAt(Math.floor(random() * settings.characters.length));
+  }
+
+  // Characters sit on a sine wave so the baseline can't be traced
+  const slotWidth = CAPTCHA_WIDTH / (settings.length + 1);
+  const wavePhase = between(0, Math.PI * 2, random);
+  const waveLength = between(1.5, 3, random);
+
+  const glyphs: CaptchaGlyph[] = text.split('').map((char, index) => {
+    const fontSize = between(32, 42, random);
+    const wave = Math.sin(wavePhase + (index / settings.length) * Math.PI * waveLength) * settings.warp;
+    return {
+      char,
+      x: slotWidth * (index + 1) + between(-slotWidth * 0.15, slotWidth * 0.15, random),
+      y: CAPTCHA_HEIGHT / 2 + fontSize / 3 + wave,
+      fontSize,
+      rotation: between(-settings.maxRotation, settings.maxRotation, random),
+      skewX: between(-settings.maxSkew, settings.maxSkew, random),
+      scaleX: between(0.8, 1.2, random),
+      color: randomColor(random),
+    };
+  });
+
+  const lines: CaptchaNoiseLine[] = Array.from({ length: settings.noiseLines }, () => ({
+    path: randomNoisePath(random),
+    color: randomColor(random, [30, 60]),
+    width: between(1, 2.5, random),
+  }));
+
+  const dots: CaptchaNoiseDot[] = Array.from({ length: settings.noiseDots }, () => ({
+    cx: between(0, CAPTCHA_WIDTH, random),
+    cy: between(0, CAPTCHA_HEIGHT, random),
+    r: between(0.8, 2, random),
+    color: randomColor(random, [30, 70]),
+  }));
+
+  return {
+    text,
+    caseSensitive: settings.caseSensitive,
+    width: CAPTCHA_WIDTH,
+    height: CAPTCHA_HEIGHT,
+    background: `hsl(${Math.round(between(0, 360, random))}, 30%, 93%)`,
+    glyphs,
+    lines,
+    dots,
+  };
+};
+
+// Check an answer - spaces are ignored, and case only matters on difficulties that say so
+export const checkCaptchaAnswer = (captcha: Captcha, answer: string): boolean => {
+  const cleaned = answer.replace(/\s+/g, '');
+  return captcha.caseSensitive
+    ? cleaned === captcha.text
+    : cleaned.toUpperCase() === captcha.text.toUpperCase();
+};
+
+// Text read out for the audio captcha, one character at a time
+export const getSpokenCaptcha = (captcha: Captcha): string => {
+  return captcha.text
+    .split('')
+    .map(char => {
+      if (/[0-9]/.test(char)) return char;
+      if (!captcha.caseSensitive) return char;
+      return char === char.toUpperCase() ? `capital ${char}` : `lowercase ${char}`;
+    })
+    .join(', ');
+};
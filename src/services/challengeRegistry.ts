@@ -0,0 +1,203 @@
+import { Feather } from '@expo/vector-icons';
+import { RootStackParamList } from '../../App';
+import { Alarm, AlarmMode, ScanCodeKind } from '../types';
+import { RingingSession, setChallengeStep, startRingingSession } from './ringingSessionService';
+
+/**
+ * Registry of challenge modes and the single place that routes a ringing alarm
+ * Screens and services read names, icons and routes from here instead of switching on alarm.mode
+ */
+
+export type FeatherIconName = keyof typeof Feather.glyphMap;
+
+// Screens that take the ringing alarm as their only param
+export type ChallengeRoute = {
+  [Route in keyof RootStackParamList]: RootStackParamList[Route] extends { alarm: Alarm } ? Route : never
+}[keyof RootStackParamList];
+
+// Screens used to set up a challenge after the alarm is saved
+export type ChallengeSetupRoute = 'QRCodeSetup';
+
+export interface ChallengeDefinition {
+  mode: AlarmMode;
+  route: ChallengeRoute;
+  name: string;
+  icon: FeatherIconName;
+  description: string;
+  // Whether the mode can be picked when creating an alarm
+  selectable: boolean;
+  // Extra setup needed before the alarm can ring with this challenge
+  setup?: {
+    route: ChallengeSetupRoute;
+    params?: { kind: ScanCodeKind };
+    isComplete: (alarm: Alarm) => boolean;
+  };
+}
+
+export const CHALLENGES: Record<AlarmMode, ChallengeDefinition> = {
+  [AlarmMode.STANDARD]: {
+    mode: AlarmMode.STANDARD,
+    route: 'AlarmRinging',
+    name: 'Dismiss',
+    icon: 'bell',
+    description: 'Dismiss the alarm with a single tap',
+    selectable: false,
+  },
+  [AlarmMode.TINY_BUTTON]: {
+    mode: AlarmMode.TINY_BUTTON,
+    route: 'FindButtonChallenge',
+    name: 'Find Button',
+    icon: 'target',
+    description: 'Find and press the correct snooze button',
+    selectable: true,
+  },
+  [AlarmMode.QUIZ]: {
+    mode: AlarmMode.QUIZ,
+    route: 'QuizChallenge',
+    name: 'Solve Quiz',
+    icon: 'help-circle',
+    description: 'Answer generated math questions correctly to dismiss',
+    selectable: true,
+  },
+  [AlarmMode.CAPTCHA]: {
+    mode: AlarmMode.CAPTCHA,
+    route: 'CaptchaChallenge',
+    name: 'Solve Captcha',
+    icon: 'shield',
+    description: 'Type the characters you see to dismiss',
+    selectable: true,
+  },
+  [AlarmMode.QR_CODE]: {
+    mode: AlarmMode.QR_CODE,
+    route: 'QRCodeChallenge',
+    name: 'Scan QR Code',
+    icon: 'grid',
+    description: 'Scan one or more specific QR codes to dismiss the alarm',
+    selectable: true,
+    setup: {
+      route: 'QRCodeSetup',
+      isComplete: alarm => !!alarm.qrCodeIds && alarm.qrCodeIds.length > 0,
+    },
+  },
+  [AlarmMode.BARCODE]: {
+    mode: AlarmMode.BARCODE,
+    route: 'QRCodeChallenge',
+    name: 'Scan Barcode',
+    icon: 'shopping-bag',
+    description: 'Scan the barcode of a product, like your toothpaste or coffee',
+    selectable: true,
+    setup: {
+      route: 'QRCodeSetup',
+      params: { kind: 'barcode' },
+      isComplete: alarm => !!alarm.qrCodeIds && alarm.qrCodeIds.length > 0,
+    },
+  },
+  [AlarmMode.MEMORY]: {
+    mode: AlarmMode.MEMORY,
+    route: 'MemoryChallenge',
+    name: 'Memory Sequence',
+    icon: 'layers',
+    description: 'Repeat a growing sequence of flashing tiles or digits',
+    selectable: true,
+  },
+  [AlarmMode.TYPING]: {
+    mode: AlarmMode.TYPING,
+    route: 'TypingChallenge',
+    name: 'Type Passage',
+    icon: 'type',
+    description: 'Type out a passage or affirmation exactly, without pasting',
+    selectable: true,
+  },
+};
+
+// Challenge modes offered when creating an alarm, in display order
+export const SELECTABLE_CHALLENGES = Object.values(CHALLENGES).filter(challenge => challenge.selectable);
+
+// Look up a challenge - unknown modes fall back to the standard ringing screen
+export const getChallenge = (mode: AlarmMode | string): ChallengeDefinition => {
+  return CHALLENGES[mode as AlarmMode] || CHALLENGES[AlarmMode.STANDARD];
+};
+
+// Whether dismissing this alarm needs a challenge screen at all
+export const hasChallengeScreen = (alarm: Alarm): boolean => {
+  return getChallenge(alarm.mode).route !== 'AlarmRinging';
+};
+
+// Challenges of an alarm in the order they must be solved - alarms without a chain have just their mode
+export const getChallengeSteps = (alarm: Alarm): AlarmMode[] => {
+  return alarm.challengeSteps && alarm.challengeSteps.length > 0 ? alarm.challengeSteps : [alarm.mode];
+};
+
+// Setup an alarm still needs before it can ring - null once every step that needs setup has it
+export const getIncompleteSetup = (alarm: Alarm): ChallengeDefinition['setup'] | null => {
+  const mode = getChallengeSteps(alarm).find(step => {
+    const { setup } = getChallenge(step);
+    return setup && !setup.isComplete(alarm);
+  });
+  return mode ? getChallenge(mode).setup : null;
+};
+
+// Names of every step of an alarm's challenge, e.g. "Find Button → Solve Quiz"
+export const getChallengeStepsName = (alarm: Alarm): string => {
+  return getChallengeSteps(alarm).map(mode => getChallenge(mode).name).join(' → ');
+};
+
+// Progress label for a chained challenge, e.g. "Step 2 of 3" - null for single challenges
+export const getChallengeStepLabel = (alarm: Alarm, step: number = 0): string | null => {
+  const steps = getChallengeSteps(alarm);
+  return steps.length > 1 ? `Step ${step + 1} of ${steps.length}` : null;
+};
+
+// Open the challenge screen for an alarm, at the given step of its chain
+export const navigateToChallenge = (navigation: any, alarm: Alarm, step: number = 0) => {
+  const steps = getChallengeSteps(alarm);
+  const currentStep = Math.min(Math.max(step, 0), steps.length - 1);
+  const { route } = getChallenge(steps[currentStep]);
+  navigation.navigate(route, { alarm, step: currentStep });
+};
+
+// Move on to the next challenge of a chain once a step is solved
+// Returns false after the last step, when the alarm should be dismissed - the sound keeps playing until then
+export const goToNextChallengeStep = (navigation: any, alarm: Alarm, step: number = 0): boolean => {
+  const steps = getChallengeSteps(alarm);
+  const nextStep = step + 1;
+  if (nextStep >= steps.length) return false;
+
+  setChallengeStep(alarm.id, nextStep);
+  const { route } = getChallenge(steps[nextStep]);
+  navigation.replace(route, { alarm, step: nextStep });
+  return true;
+};
+
+// Challenge that stands in for a scanning step that can't be done, e.g. its codes were deleted or the camera is blocked
+// It still has to be solved, so losing the codes is never a way around the alarm
+export const FALLBACK_CHALLENGE_MODE = AlarmMode.CAPTCHA;
+
+// Swap the current step for the fallback challenge - solving it carries on with the rest of the chain
+export const replaceWithFallbackChallenge = (navigation: any, alarm: Alarm, step: number = 0) => {
+  console.warn(`Alarm ${alarm.label} can't use step ${step + 1} of its challenge - falling back to ${FALLBACK_CHALLENGE_MODE}`);
+  navigation.replace(getChallenge(FALLBACK_CHALLENGE_MODE).route, { alarm, step });
+};
+
+// Show a ringing alarm - every fired alarm starts on the ringing screen, which offers snooze and the challenge
+export const dispatchRingingAlarm = (navigation: any, alarm: Alarm) => {
+  if (!navigation) {
+    console.warn(`Cannot show alarm ${alarm.label} - navigation is not ready`);
+    return;
+  }
+
+  startRingingSession(alarm);
+  navigation.navigate('AlarmRinging', { alarm });
+};
+
+// Go back to an unfinished ringing session after the app was killed
+export const resumeRingingSession = (navigation: any, session: RingingSession) => {
+  console.log(`Resuming ${session.state} session for alarm ${session.alarm.label}`);
+
+  if (session.state === 'in-challenge' && hasChallengeScreen(session.alarm)) {
+    navigateToChallenge(navigation, session.alarm, session.currentStep);
+    return;
+  }
+
+  navigation.navigate('AlarmRinging', { alarm: session.alarm });
+};
@@ -0,0 +1,86 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { isWeb, downloadWebFile, downloadWebDataUrl } from './webCompatibility';
+
+/**
+ * Moving files in and out of the app
+ * Native builds use the share sheet and document picker, web downloads and uploads in the browser
+ */
+
+export interface SharedTextFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+  uti: string; // iOS share sheet file type
+  dialogTitle: string;
+}
+
+// Write a text file and share or download it
+// Throws if the file can't be written or shared
+export const shareTextFile = async ({ fileName, content, mimeType, uti, dialogTitle }: SharedTextFile): Promise<void> => {
+  if (isWeb) {
+    if (!downloadWebFile(fileName, content, mimeType)) {
+      throw new Error('Downloads are not supported in this browser.');
+    }
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, content);
+
+  await Sharing.shareAsync(fileUri, { mimeType, dialogTitle, UTI: uti });
+};
+
+export interface SharedBinaryFile {
+  fileName: string;
+  base64: string;
+  mimeType: string;
+  uti: string; // iOS share sheet file type
+  dialogTitle: string;
+}
+
+// Write a base64-encoded file, such as an image, and share or download it
+// Throws if the file can't be written or shared
+export const shareBinaryFile = async ({ fileName, base64, mimeType, uti, dialogTitle }: SharedBinaryFile): Promise<void> => {
+  if (isWeb) {
+    if (!downloadWebDataUrl(fileName, `data:${mimeType};base64,${base64}`)) {
+      throw new Error('Downloads are not supported in this browser.');
+    }
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+
+  await Sharing.shareAsync(fileUri, { mimeType, dialogTitle, UTI: uti });
+};
+
+// Let the user pick a text file and read it - resolves to null if they cancel
+export const pickTextFile = async (mimeTypes: string[]): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+
+  if (isWeb) {
+    // The browser hands back the picked File, or a data URI for it
+    return asset.file ? asset.file.text() : (await fetch(asset.uri)).text();
+  }
+
+  return FileSystem.readAsStringAsync(asset.uri);
+};
@@ -0,0 +1,84 @@
+import { FindButtonDifficulty } from '../types';
+
+/**
+ * Difficulty presets for the find button challenge
+ * Each preset sets the button size, the decoys around it, how often they move and how many rounds must be cleared
+ */
+
+export const DEFAULT_FIND_BUTTON_DIFFICULTY: FindButtonDifficulty = 'medium';
+
+export interface FindButtonSettings {
+  buttonWidth: number;
+  buttonHeight: number;
+  decoys: number;
+  lookalikes: number; // How many of the decoys look like the real button
+  moveInterval: number | null; // Milliseconds between the buttons moving around, null to keep them still
+  rounds: number; // Rounds that must be cleared in a row
+}
+
+const FIND_BUTTON_SETTINGS: Record<FindButtonDifficulty, FindButtonSettings> = {
+  easy: {
+    buttonWidth: 110,
+    buttonHeight: 48,
+    decoys: 3,
+    lookalikes: 0,
+    moveInterval: null,
+    rounds: 1,
+  },
+  medium: {
+    buttonWidth: 90,
+    buttonHeight: 40,
+    decoys: 5,
+    lookalikes: 2,
+    moveInterval: null,
+    rounds: 1,
+  },
+  hard: {
+    buttonWidth: 80,
+    buttonHeight: 34,
+    decoys: 8,
+    lookalikes: 5,
+    moveInterval: 4000,
+    rounds: 2,
+  },
+  insane: {
+    buttonWidth: 70,
+    buttonHeight: 28,
+    decoys: 12,
+    lookalikes: 12,
+    moveInterval: 2500,
+    rounds: 3,
+  },
+};
+
+export const FIND_BUTTON_DIFFICULTIES: { id: FindButtonDifficulty; name: string; description: string }[] = [
+  { id: 'easy', name: 'Easy', description: 'Large button, 3 decoys that are easy to tell apart' },
+  { id: 'medium', name: 'Medium', description: '5 decoys, 2 of them lookalikes' },
+  { id: 'hard', name: 'Hard', description: 'Smaller button, 8 decoys that move every 4 seconds, 2 rounds' },
+  { id: 'insane', name: 'Insane', description: 'Tiny button, 12 lookalikes that move every 2.5 seconds, 3 rounds' },
+];
+
+// Decoy taps add a penalty round each, up to this many
+export const MAX_PENALTY_ROUNDS = 5;
+
+export const REAL_BUTTON_LABEL = 'SNOOZE';
+
+// Labels of decoys that are easy to tell apart from the real button
+const PLAIN_DECOY_LABELS = ['ALARM', 'WAKE', 'LATER', 'STOP', 'SLEEP', 'RING', 'SNACK', 'SHOOT'];
+
+// Labels of decoys that look like the real button at a glance
+const LOOKALIKE_DECOY_LABELS = ['SN00ZE', 'SNOOZ', 'SNOZE', 'SNO0ZE', 'SNOOOZE', 'SN0OZE', 'SMOOZE', 'SNOOZF', 'SWOOZE', 'ZNOOZE'];
+
+export const getFindButtonSettings = (difficulty: FindButtonDifficulty = DEFAULT_FIND_BUTTON_DIFFICULTY): FindButtonSettings => {
+  return FIND_BUTTON_SETTINGS[difficulty] || FIND_BUTTON_SETTINGS[DEFAULT_FIND_BUTTON_DIFFICULTY];
+};
+
+// Pick the labels for one round of decoys - lookalikes first, then plain decoys
+export const getDecoyLabels = (settings: FindButtonSettings, random: () => number = Math.random): string[] => {
+  const pick = (labels: string[]) => labels[Math.floor(random() * labels.length)];
+  const lookalikes = Math.min(settings.lookalikes, settings.decoys);
+
+  return Array.from({ length: settings.decoys }, (_, index) => (
+    index < lookalikes ? pick(LOOKALIKE_DECOY_LABELS) : pick(PLAIN_DECOY_LABELS)
+  ));
+};
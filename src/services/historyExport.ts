@@ -0,0 +1,92 @@
+import { AlarmOccurrence, getAlarmEvents, getAlarmOccurrences } from './analyticsService';
+import { shareTextFile } from './fileSharing';
+
+/**
+ * Export of the alarm history as CSV or JSON
+ * Native builds hand the file to the share sheet, web downloads it
+ */
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+// One exported row per time an alarm rang
+export interface HistoryExportRow {
+  alarmId: string;
+  label: string;
+  mode: string;
+  scheduledTime: string;
+  firedTime: string;
+  dismissedTime: string;
+  snoozes: number;
+  challengeAttempts: number;
+}
+
+const CSV_COLUMNS: { key: keyof HistoryExportRow; header: string }[] = [
+  { key: 'alarmId', header: 'alarm_id' },
+  { key: 'label', header: 'label' },
+  { key: 'mode', header: 'mode' },
+  { key: 'scheduledTime', header: 'scheduled_time' },
+  { key: 'firedTime', header: 'fired_time' },
+  { key: 'dismissedTime', header: 'dismissed_time' },
+  { key: 'snoozes', header: 'snoozes' },
+  { key: 'challengeAttempts', header: 'challenge_attempts' },
+];
+
+const MIME_TYPES: Record<HistoryExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// iOS share sheet file types
+const UTIS: Record<HistoryExportFormat, string> = {
+  csv: 'public.comma-separated-values-text',
+  json: 'public.json',
+};
+
+// ISO timestamp, or empty when the time is unknown
+const formatTimestamp = (timestamp?: number) => (timestamp !== undefined ? new Date(timestamp).toISOString() : '');
+
+export const toExportRows = (occurrences: AlarmOccurrence[]): HistoryExportRow[] => {
+  return occurrences.map(occurrence => ({
+    alarmId: occurrence.alarmId,
+    label: occurrence.label,
+    mode: occurrence.mode,
+    scheduledTime: formatTimestamp(occurrence.scheduledTime),
+    firedTime: formatTimestamp(occurrence.firedAt),
+    dismissedTime: formatTimestamp(occurrence.dismissedAt),
+    snoozes: occurrence.snoozes,
+    challengeAttempts: occurrence.attempts,
+  }));
+};
+
+// Quote a CSV value when it contains separators, quotes or line breaks
+const escapeCsvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: HistoryExportRow[]): string => {
+  const header = CSV_COLUMNS.map(column => column.header).join(',');
+  const lines = rows.map(row => CSV_COLUMNS.map(column => escapeCsvValue(row[column.key])).join(','));
+  return [header, ...lines].join('\r\n');
+};
+
+export const toJson = (rows: HistoryExportRow[]): string => {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), alarms: rows }, null, 2);
+};
+
+// Write the alarm history to a file and share or download it
+// Throws if the file can't be written or shared
+export const exportAlarmHistory = async (format: HistoryExportFormat): Promise<void> => {
+  const events = await getAlarmEvents();
+  const rows = toExportRows(getAlarmOccurrences(events));
+  const content = format === 'csv' ? toCsv(rows) : toJson(rows);
+  const fileName = `alarm-history-${new Date().toISOString().split('T')[0]}.${format}`;
+
+  await shareTextFile({
+    fileName,
+    content,
+    mimeType: MIME_TYPES[format],
+    uti: UTIS[format],
+    dialogTitle: 'Export alarm history',
+  });
+};
@@ -0,0 +1,89 @@
+import { MemorySpeed, MemorySymbols } from '../types';
+
+/**
+ * Sequences for the memory challenge
+ * Each round flashes one more symbol than the last, until the alarm's target length has been repeated back
+ */
+
+export const DEFAULT_MEMORY_LENGTH = 6;
+export const DEFAULT_MEMORY_SPEED: MemorySpeed = 'normal';
+export const DEFAULT_MEMORY_SYMBOLS: MemorySymbols = 'tiles';
+
+// Target lengths offered when creating an alarm
+export const MEMORY_LENGTH_OPTIONS = [4, 5, 6, 8, 10];
+
+// Length of the first round - short enough to get going while half asleep
+const STARTING_LENGTH = 3;
+
+interface MemorySpeedSettings {
+  flashMs: number; // How long each symbol stays lit
+  gapMs: number; // Pause between two symbols
+}
+
+const MEMORY_SPEED_SETTINGS: Record<MemorySpeed, MemorySpeedSettings> = {
+  slow: { flashMs: 900, gapMs: 400 },
+  normal: { flashMs: 600, gapMs: 250 },
+  fast: { flashMs: 350, gapMs: 150 },
+};
+
+export const MEMORY_SPEEDS: { id: MemorySpeed; name: string; description: string }[] = [
+  { id: 'slow', name: 'Slow', description: 'Each symbol flashes for almost a second' },
+  { id: 'normal', name: 'Normal', description: 'Each symbol flashes for just over half a second' },
+  { id: 'fast', name: 'Fast', description: 'Each symbol flashes for about a third of a second' },
+];
+
+export const MEMORY_SYMBOL_OPTIONS: { id: MemorySymbols; name: string }[] = [
+  { id: 'tiles', name: 'Coloured tiles' },
+  { id: 'digits', name: 'Digits' },
+];
+
+// One tile of the memory board
+export interface MemoryTile {
+  label: string; // Shown on the tile - empty for coloured tiles
+  color: string;
+  litColor: string; // Colour while the tile is flashing
+}
+
+const COLOUR_TILES: MemoryTile[] = [
+  { label: '', color: '#8B2E2E', litColor: '#FF5252' },
+  { label: '', color: '#2E5A8B', litColor: '#448AFF' },
+  { label: '', color: '#2E7D4F', litColor: '#69F0AE' },
+  { label: '', color: '#8B7A2E', litColor: '#FFD740' },
+];
+
+const DIGIT_TILES: MemoryTile[] = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(label => ({
+  label,
+  color: '#2a2a2a',
+  litColor: '#2E7D87',
+}));
+
+export const getMemoryTiles = (symbols: MemorySymbols = DEFAULT_MEMORY_SYMBOLS): MemoryTile[] => {
+  return symbols === 'digits' ? DIGIT_TILES : COLOUR_TILES;
+};
+
+export const getMemorySpeedSettings = (speed: MemorySpeed = DEFAULT_MEMORY_SPEED): MemorySpeedSettings => {
+  return MEMORY_SPEED_SETTINGS[speed] || MEMORY_SPEED_SETTINGS[DEFAULT_MEMORY_SPEED];
+};
+
+// Length of the first round for a target length
+export const getStartingLength = (targetLength: number): number => {
+  return Math.min(STARTING_LENGTH, targetLength);
+};
+
+// Random tile indexes for a new sequence
+export const generateMemorySequence = (
+  length: number,
+  tileCount: number,
+  random: () => number = Math.random
+): number[] => {
+  return Array.from({ length }, () => Math.floor(random() * tileCount));
+};
+
+// Add one more tile to a sequence for the next round
+export const extendMemorySequence = (
+  sequence: number[],
+  tileCount: number,
+  random: () => number = Math.random
+): number[] => {
+  return [...sequence, ...generateMemorySequence(1, tileCount, random)];
+};
@@ -0,0 +1,96 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alarm, AlarmMode } from '../types';
+
+/**
+ * Log of alarms that were missed beyond the grace window
+ * Shown to the user on the home screen until they clear it
+ */
+
+const MISSED_ALARMS_KEY = 'missedAlarms';
+
+// Keep the log from growing forever
+const MAX_MISSED_ALARMS = 50;
+
+export interface MissedAlarm {
+  alarmId: string;
+  label: string;
+  time: string;
+  mode: AlarmMode;
+  scheduledTime: number; // When the alarm should have rung
+  detectedAt: number; // When the catch-up pass noticed it
+}
+
+export type MissedAlarmListener = (missedAlarms: MissedAlarm[]) => void;
+
+const listeners = new Set<MissedAlarmListener>();
+
+const notifyListeners = (missedAlarms: MissedAlarm[]) => {
+  listeners.forEach(listener => listener(missedAlarms));
+};
+
+// Load the missed alarm log, newest first
+export const getMissedAlarms = async (): Promise<MissedAlarm[]> => {
+  try {
+    const missedJson = await AsyncStorage.getItem(MISSED_ALARMS_KEY);
+    return missedJson ? JSON.parse(missedJson) : [];
+  } catch (error) {
+    console.error('Error loading missed alarms:', error);
+    return [];
+  }
+};
+
+// Add an alarm to the missed alarm log
+export const recordMissedAlarm = async (alarm: Alarm, scheduledTime: number) => {
+  try {
+    const missedAlarms = await getMissedAlarms();
+
+    // The same occurrence can be detected by more than one check
+    if (missedAlarms.some(missed => missed.alarmId === alarm.id && missed.scheduledTime === scheduledTime)) {
+      return;
+    }
+
+    const updatedMissedAlarms = [
+      {
+        alarmId: alarm.id,
+        label: alarm.label,
+        time: alarm.time,
+        mode: alarm.mode,
+        scheduledTime,
+        detectedAt: Date.now(),
+      },
+      ...missedAlarms,
+    ].slice(0, MAX_MISSED_ALARMS);
+
+    await AsyncStorage.setItem(MISSED_ALARMS_KEY, JSON.stringify(updatedMissedAlarms));
+    notifyListeners(updatedMissedAlarms);
+
+    console.warn(`Alarm ${alarm.label} was missed (scheduled for ${new Date(scheduledTime).toLocaleString()})`);
+  } catch (error) {
+    console.error('Error recording missed alarm:', error);
+  }
+};
+
+// Clear the missed alarm log once the user has seen it
+export const clearMissedAlarms = async () => {
+  try {
+    await AsyncStorage.removeItem(MISSED_ALARMS_KEY);
+    notifyListeners([]);
+  } catch (error) {
+    console.error('Error clearing missed alarms:', error);
+  }
+};
+
+// Subscribe to changes of the missed alarm log - the listener is called with the current log right away
+export const subscribeToMissedAlarms = (listener: MissedAlarmListener): (() => void) => {
+  listeners.add(listener);
+
+  getMissedAlarms().then(missedAlarms => {
+    if (listeners.has(listener)) {
+      listener(missedAlarms);
+    }
+  });
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,147 @@
+import * as Crypto from 'expo-crypto';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import * as QRCodeEncoder from 'qrcode';
+import { QRCode } from '../types';
+import { shareBinaryFile } from './fileSharing';
+import { isWeb, renderWebPng } from './webCompatibility';
+
+/**
+ * Printable QR codes generated by the app
+ * Each one carries a random payload with an app prefix, so it can't be confused with a product's code
+ */
+
+// Marks payloads generated by this app
+const APP_QR_PREFIX = 'alarmy-wake:';
+
+// 128 random bits - no other code will ever carry the same payload
+const PAYLOAD_BYTES = 16;
+
+// Blank modules around the code that scanners need to find it
+const QUIET_ZONE = 4;
+
+// Pixel size of exported PNGs
+export const QR_EXPORT_SIZE = 1024;
+
+// Dark modules of a QR code as one SVG path, in module units including the quiet zone
+export interface QRCodeShape {
+  size: number;
+  path: string;
+}
+
+// Make a new random payload for a printable code
+export const generateQRPayload = (): string => {
+  const bytes = Crypto.getRandomBytes(PAYLOAD_BYTES);
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${APP_QR_PREFIX}${hex}`;
+};
+
+// Whether a scanned payload was generated by this app
+export const isAppQRPayload = (data: string): boolean => {
+  return data.startsWith(APP_QR_PREFIX);
+};
+
+// Encode a payload and trace its dark modules, merging runs along each row to keep the path short
+export const getQRCodeShape = (data: string): QRCodeShape => {
+  const { modules } = QRCodeEncoder.create(data, { errorCorrectionLevel: 'M' });
+  const commands: string[] = [];
+
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) {
+        col++;
+      }
+      const length = col - start;
+      commands.push(`M${start + QUIET_ZONE} ${row + QUIET_ZONE}h${length}v1h-${length}z`);
+    }
+  }
+
+  return { size: modules.size + QUIET_ZONE * 2, path: commands.join('') };
+};
+
+// Standalone SVG markup of a code, for printing
+const getQRCodeSvg = (data: string): string => {
+  const { size, path } = getQRCodeShape(data);
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`
+    + `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// File name for an exported code, based on its name
+const getExportFileName = (qrCode: QRCode, extension: string) => {
+  const slug = qrCode.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'qr-code';
+  return `alarmy-${slug}.${extension}`;
+};
+
+// Share a printable PDF page with the code - the browser's print dialog stands in on web
+export const exportQRCodePdf = async (qrCode: QRCode): Promise<void> => {
+  const html = `
+    <html>
+      <body style="font-family: sans-serif; text-align: center; padding-top: 48px;">
+        <div style="width: 12cm; height: 12cm; margin: 0 auto;">${getQRCodeSvg(qrCode.data)}</div>
+        <h1 style="font-size: 28px; margin-top: 24px;">${escapeHtml(qrCode.name)}</h1>
+        <p style="font-size: 16px; color: #666;">Scan this code to turn off your alarm</p>
+      </body>
+    </html>`;
+
+  if (isWeb) {
+    await Print.printAsync({ html });
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    dialogTitle: 'Save QR code',
+    UTI: 'com.adobe.pdf',
+  });
+};
+
+// Share the code as a PNG
+// Native builds pass the image rendered by the on-screen SVG, web draws it on a canvas
+export const exportQRCodePng = async (qrCode: QRCode, renderedBase64?: string): Promise<void> => {
+  let base64 = renderedBase64;
+
+  if (!base64 && isWeb) {
+    const { size, path } = getQRCodeShape(qrCode.data);
+    // Whole pixels per module keep the edges sharp
+    const scale = Math.floor(QR_EXPORT_SIZE / size);
+    const pixels = size * scale;
+    const dataUrl = renderWebPng(pixels, pixels, context => {
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, pixels, pixels);
+      context.scale(scale, scale);
+      context.fillStyle = '#000';
+      context.fill(new Path2D(path));
+    });
+    base64 = dataUrl?.split(',')[1];
+  }
+
+  if (!base64) {
+    throw new Error('The QR code image could not be created.');
+  }
+
+  await shareBinaryFile({
+    fileName: getExportFileName(qrCode, 'png'),
+    base64,
+    mimeType: 'image/png',
+    uti: 'public.png',
+    dialogTitle: 'Save QR code',
+  });
+};
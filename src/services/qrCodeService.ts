@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BarcodeType } from 'expo-camera';
+import { Alarm, AlarmMode, QRCode, ScanCodeKind } from '../types';
+import { AlarmRepository } from './alarmRepository';
+
+/**
+ * Stored QR code and product barcode records, one storage key per code
+ * QR code and barcode alarms refer to these by ID, so one code can be shared between alarms
+ */
+
+const QR_CODE_KEY_PREFIX = 'qrcode_';
+
+// What the camera looks for, and how the code is described, for each kind of code
+export const SCAN_CODE_KINDS: Record<ScanCodeKind, { name: string; barcodeTypes: BarcodeType[] }> = {
+  qr: {
+    name: 'QR code',
+    barcodeTypes: ['qr'],
+  },
+  barcode: {
+    name: 'barcode',
+    // 1D product barcodes - EAN and UPC on groceries, Code 128 and Code 39 on most other packaging
+    barcodeTypes: ['ean13', 'ean8', 'upc_a', 'upc_e', 'code128', 'code39'],
+  },
+};
+
+// Kind of code an alarm asks for
+export const getScanCodeKind = (mode: AlarmMode): ScanCodeKind => {
+  return mode === AlarmMode.BARCODE ? 'barcode' : 'qr';
+};
+
+export const getQRCodeKey = (qrCodeId: string) => `${QR_CODE_KEY_PREFIX}${qrCodeId}`;
+
+// Load every stored QR code record, newest first
+export const getAllQRCodes = async (): Promise<QRCode[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  const entries = await AsyncStorage.multiGet(keys.filter(key => key.startsWith(QR_CODE_KEY_PREFIX)));
+
+  const qrCodes: QRCode[] = [];
+  entries.forEach(([key, value]) => {
+    if (!value) return;
+    try {
+      qrCodes.push(JSON.parse(value));
+    } catch (error) {
+      console.warn(`Skipping unreadable QR code record ${key}:`, error);
+    }
+  });
+  return qrCodes.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Load QR codes by ID, in the order asked for - missing codes come back as null
+export const getQRCodes = async (qrCodeIds: string[]): Promise<(QRCode | null)[]> => {
+  const entries = await AsyncStorage.multiGet(qrCodeIds.map(getQRCodeKey));
+  return entries.map(([key, value]) => {
+    if (!value) return null;
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      console.warn(`Skipping unreadable QR code record ${key}:`, error);
+      return null;
+    }
+  });
+};
+
+// Store a newly scanned or generated code
+export const createQRCode = async (
+  data: string,
+  name: string,
+  generated: boolean = false,
+  kind: ScanCodeKind = 'qr'
+): Promise<QRCode> => {
+  const qrCode: QRCode = {
+    // Several codes can be saved in the same millisecond during setup
+    id: `qr_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+    data,
+    name,
+    timestamp: Date.now(),
+    ...(generated ? { generated: true } : {}),
+    ...(kind === 'barcode' ? { kind } : {}),
+  };
+
+  await AsyncStorage.setItem(getQRCodeKey(qrCode.id), JSON.stringify(qrCode));
+  return qrCode;
+};
+
+// Alarms that ask for each QR code, keyed by QR code ID
+export const getQRCodeUsage = async (): Promise<Record<string, Alarm[]>> => {
+  const alarms = await AlarmRepository.list();
+  const usage: Record<string, Alarm[]> = {};
+
+  alarms.forEach(alarm => {
+    (alarm.qrCodeIds ?? []).forEach(qrCodeId => {
+      usage[qrCodeId] = [...(usage[qrCodeId] ?? []), alarm];
+    });
+  });
+  return usage;
+};
+
+// Give a stored QR code a new name
+export const renameQRCode = async (qrCodeId: string, name: string): Promise<QRCode> => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('A QR code needs a name.');
+  }
+
+  const [qrCode] = await getQRCodes([qrCodeId]);
+  if (!qrCode) {
+    throw new Error('This QR code no longer exists.');
+  }
+
+  const renamed = { ...qrCode, name: trimmed };
+  await AsyncStorage.setItem(getQRCodeKey(qrCodeId), JSON.stringify(renamed));
+  return renamed;
+};
+
+// Delete a stored QR code - blocked while an alarm still asks for it
+export const deleteQRCode = async (qrCodeId: string) => {
+  const usage = await getQRCodeUsage();
+  const alarms = usage[qrCodeId] ?? [];
+
+  if (alarms.length > 0) {
+    const labels = alarms.map(alarm => `${alarm.label} (${alarm.time})`).join(', ');
+    throw new Error(`This code is used by ${labels}. Remove it from ${alarms.length === 1 ? 'that alarm' : 'those alarms'} first.`);
+  }
+
+  await AsyncStorage.removeItem(getQRCodeKey(qrCodeId));
+};
+
+// Delete every QR code no alarm asks for - returns how many were removed
+export const deleteUnusedQRCodes = async (): Promise<number> => {
+  const [qrCodes, usage] = await Promise.all([getAllQRCodes(), getQRCodeUsage()]);
+  const unusedKeys = qrCodes
+    .filter(qrCode => !usage[qrCode.id])
+    .map(qrCode => getQRCodeKey(qrCode.id));
+
+  if (unusedKeys.length > 0) {
+    await AsyncStorage.multiRemove(unusedKeys);
+  }
+  return unusedKeys.length;
+};
@@ -0,0 +1,324 @@
+import { QuizDifficulty } from '../types';
+
+/**
+ * Procedural math questions for the quiz challenge
+ * Every question is generated fresh, with wrong options based on common mistakes
+ */
+
+export const DEFAULT_QUIZ_DIFFICULTY: QuizDifficulty = 'medium';
+
+// Correct answers in a row needed to dismiss, unless the alarm sets its own
+export const DEFAULT_QUIZ_STREAK = 1;
+
+export const QUIZ_DIFFICULTIES: { id: QuizDifficulty; name: string; description: string }[] = [
+  { id: 'easy', name: 'Easy', description: 'Single-digit sums and times tables' },
+  { id: 'medium', name: 'Medium', description: 'Two-digit arithmetic, simple equations and percentages' },
+  { id: 'hard', name: 'Hard', description: 'Multi-step expressions and equations like 3x + 7 = 25' },
+  { id: 'extreme', name: 'Extreme', description: 'Long multiplication, x on both sides, percentage changes' },
+];
+
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  correctAnswer: number; // Index of the correct option
+  source?: string; // Name of the quiz pack the question came from - generated math has none
+}
+
+// A generated problem before its options are built
+interface Problem {
+  question: string;
+  answer: number;
+  mistakes: number[]; // Answers produced by typical slips, used as wrong options
+  format?: (value: number) => string;
+}
+
+type ProblemKind = 'arithmetic' | 'expression' | 'equation' | 'percentage';
+
+// Kinds of problems asked at each difficulty
+const DIFFICULTY_KINDS: Record<QuizDifficulty, ProblemKind[]> = {
+  easy: ['arithmetic', 'equation'],
+  medium: ['arithmetic', 'expression', 'equation', 'percentage'],
+  hard: ['arithmetic', 'expression', 'equation', 'percentage'],
+  extreme: ['arithmetic', 'expression', 'equation', 'percentage'],
+};
+
+const OPTION_COUNT = 4;
+
+type Random = () => number;
+
+const randomInt = (min: number, max: number, random: Random) => {
+  return min + Math.floor(random() * (max - min + 1));
+};
+
+const pick = <T>(items: T[], random: Random): T => items[Math.floor(random() * items.length)];
+
+const shuffle = <T>(items: T[], random: Random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Plain arithmetic with one operator
+const arithmeticProblem = (difficulty: QuizDifficulty, random: Random): Problem => {
+  if (difficulty === 'easy') {
+    const operator = pick(['+', '-', '×'], random);
+    if (operator === '+') {
+      const a = randomInt(2, 20, random);
+      const b = randomInt(2, 20, random);
+      return { question: `What is ${a} + ${b}?`, answer: a + b, mistakes: [a + b + 1, a + b - 1, a + b + 10] };
+    }
+    if (operator === '-') {
+      const a = randomInt(10, 30, random);
+      const b = randomInt(1, a - 1, random);
+      return { question: `What is ${a} - ${b}?`, answer: a - b, mistakes: [a - b + 1, a - b - 1, a - b + 10] };
+    }
+    const a = randomInt(2, 9, random);
+    const b = randomInt(2, 9, random);
+    return { question: `What is ${a} × ${b}?`, answer: a * b, mistakes: [a * (b + 1), a * (b - 1), a + b] };
+  }
+
+  if (difficulty === 'medium') {
+    const operator = pick(['+', '-', '×', '÷'], random);
+    if (operator === '+') {
+      const a = randomInt(21, 99, random);
+      const b = randomInt(21, 99, random);
+      return { question: `What is ${a} + ${b}?`, answer: a + b, mistakes: [a + b - 10, a + b + 10, a + b + 1] };
+    }
+    if (operator === '-') {
+      const a = randomInt(50, 150, random);
+      const b = randomInt(11, 49, random);
+      return { question: `What is ${a} - ${b}?`, answer: a - b, mistakes: [a - b + 10, a - b - 10, a - b + 2] };
+    }
+    if (operator === '×') {
+      const a = randomInt(6, 15, random);
+      const b = randomInt(3, 12, random);
+      return { question: `What is ${a} × ${b}?`, answer: a * b, mistakes: [a * (b + 1), a * (b - 1), a * b + 10] };
+    }
+    const divisor = randomInt(3, 12, random);
+    const quotient = randomInt(4, 15, random);
+    return {
+      question: `What is ${divisor * quotient} ÷ ${divisor}?`,
+      answer: quotient,
+      mistakes: [quotient + 1, quotient - 1, quotient + 2],
+    };
+  }
+
+  if (difficulty === 'hard') {
+    const operator = pick(['×', '÷', 'square'], random);
+    if (operator === '×') {
+      const a = randomInt(12, 49, random);
+      const b = randomInt(6, 19, random);
+      return { question: `What is ${a} × ${b}?`, answer: a * b, mistakes: [a * (b - 1), a * b + 10, a * b - 10] };
+    }
+    if (operator === '÷') {
+      const divisor = randomInt(6, 19, random);
+      const quotient = randomInt(12, 40, random);
+      return {
+        question: `What is ${divisor * quotient} ÷ ${divisor}?`,
+        answer: quotient,
+        mistakes: [quotient + 1, quotient - 1, quotient + 10],
+      };
+    }
+    const base = randomInt(11, 20, random);
+    return { question: `What is ${base}²?`, answer: base * base, mistakes: [base * 2, base * (base + 1), base * base - 10] };
+  }
+
+  const operator = pick(['×', '÷', 'square'], random);
+  if (operator === '×') {
+    const a = randomInt(101, 499, random);
+    const b = randomInt(12, 39, random);
+    return { question: `What is ${a} × ${b}?`, answer: a * b, mistakes: [a * (b - 1), a * b + 100, a * b - 10] };
+  }
+  if (operator === '÷') {
+    const divisor = randomInt(12, 29, random);
+    const quotient = randomInt(21, 99, random);
+    return {
+      question: `What is ${divisor * quotient} ÷ ${divisor}?`,
+      answer: quotient,
+      mistakes: [quotient + 1, quotient - 1, quotient + 10],
+    };
+  }
+  const base = randomInt(21, 35, random);
+  return { question: `What is ${base}²?`, answer: base * base, mistakes: [base * 2, base * (base - 1), base * base + 10] };
+};
+
+// Expressions where the order of operations matters
+const expressionProblem = (difficulty: QuizDifficulty, random: Random): Problem => {
+  if (difficulty === 'easy' || difficulty === 'medium') {
+    const a = randomInt(2, 9, random);
+    const b = randomInt(2, 9, random);
+    const c = randomInt(2, 20, random);
+    return {
+      question: `What is ${c} + ${a} × ${b}?`,
+      answer: c + a * b,
+      mistakes: [(c + a) * b, c + a * b + 1, c + a * b - 10],
+    };
+  }
+
+  if (difficulty === 'hard') {
+    const a = randomInt(2, 15, random);
+    const b = randomInt(2, 15, random);
+    const c = randomInt(3, 9, random);
+    const d = randomInt(1, 20, random);
+    return {
+      question: `What is (${a} + ${b}) × ${c} - ${d}?`,
+      answer: (a + b) * c - d,
+      mistakes: [a + b * c - d, (a + b) * (c - d), (a + b) * c + d],
+    };
+  }
+
+  const a = randomInt(6, 19, random);
+  const b = randomInt(6, 19, random);
+  const c = randomInt(2, 9, random);
+  const d = randomInt(2, 9, random);
+  const divisor = randomInt(2, 6, random);
+  const e = divisor * randomInt(2, 12, random);
+  return {
+    question: `What is ${a} × ${b} - ${c} × ${d} + ${e} ÷ ${divisor}?`,
+    answer: a * b - c * d + e / divisor,
+    mistakes: [(a * b - c) * d + e / divisor, a * b - c * d + e, a * b + c * d + e / divisor],
+  };
+};
+
+// Linear equations solved for x
+const equationProblem = (difficulty: QuizDifficulty, random: Random): Problem => {
+  const format = (value: number) => `x = ${value}`;
+
+  if (difficulty === 'easy') {
+    const x = randomInt(1, 15, random);
+    const a = randomInt(1, 15, random);
+    return { question: `If x + ${a} = ${x + a}, what is x?`, answer: x, mistakes: [x + 2 * a, x + 1, x - 1], format };
+  }
+
+  if (difficulty === 'medium') {
+    const x = randomInt(2, 12, random);
+    const a = randomInt(2, 9, random);
+    return { question: `Solve: ${a}x = ${a * x}`, answer: x, mistakes: [a * x - a, x + 1, x - 1], format };
+  }
+
+  if (difficulty === 'hard') {
+    const x = randomInt(2, 12, random);
+    const a = randomInt(2, 9, random);
+    const b = randomInt(1, 20, random);
+    const c = a * x + b;
+    return {
+      question: `Solve: ${a}x + ${b} = ${c}`,
+      answer: x,
+      mistakes: [(c + b) / a, c - b, x + 1, x - 1],
+      format,
+    };
+  }
+
+  const x = randomInt(2, 15, random);
+  const a = randomInt(4, 12, random);
+  const c = randomInt(1, a - 1, random);
+  const b = randomInt(1, 30, random);
+  const d = (a - c) * x + b;
+  return {
+    question: `Solve: ${a}x + ${b} = ${c}x + ${d}`,
+    answer: x,
+    mistakes: [(d + b) / (a - c), (d - b) / (a + c), x + 1, x - 1],
+    format,
+  };
+};
+
+// Percentages of round numbers - bases are multiples of 20 so every answer is whole
+const percentageProblem = (difficulty: QuizDifficulty, random: Random): Problem => {
+  if (difficulty === 'easy' || difficulty === 'medium') {
+    const percent = pick([10, 20, 25, 50], random);
+    const base = 20 * randomInt(1, 10, random);
+    const answer = (percent * base) / 100;
+    return {
+      question: `What is ${percent}% of ${base}?`,
+      answer,
+      mistakes: [answer * 10, base - answer, answer + 5],
+    };
+  }
+
+  if (difficulty === 'hard') {
+    const percent = pick([5, 15, 30, 35, 45, 60, 75], random);
+    const base = 20 * randomInt(2, 20, random);
+    const answer = (percent * base) / 100;
+    return {
+      question: `What is ${percent}% of ${base}?`,
+      answer,
+      mistakes: [answer * 10, base - answer, answer + 5, answer - 5],
+    };
+  }
+
+  if (random() < 0.5) {
+    const percent = pick([15, 35, 45, 65, 120], random);
+    const base = 20 * randomInt(3, 25, random);
+    const change = (percent * base) / 100;
+    return {
+      question: `What is ${base} increased by ${percent}%?`,
+      answer: base + change,
+      mistakes: [change, base - change, base + percent],
+    };
+  }
+
+  const percent = pick([5, 15, 35, 40, 65, 85], random);
+  const whole = 20 * randomInt(2, 20, random);
+  const part = (percent * whole) / 100;
+  return {
+    question: `${part} is what percent of ${whole}?`,
+    answer: percent,
+    mistakes: [100 - percent, percent + 5, percent - 5, percent * 10],
+    format: (value: number) => `${value}%`,
+  };
+};
+
+const PROBLEM_GENERATORS: Record<ProblemKind, (difficulty: QuizDifficulty, random: Random) => Problem> = {
+  arithmetic: arithmeticProblem,
+  expression: expressionProblem,
+  equation: equationProblem,
+  percentage: percentageProblem,
+};
+
+// Pick three wrong options - typical mistakes first, then values close to the answer
+const getWrongAnswers = (problem: Problem, random: Random): number[] => {
+  const wrong: number[] = [];
+  const accept = (value: number) => {
+    if (
+      wrong.length < OPTION_COUNT - 1
+      && Number.isInteger(value)
+      && value !== problem.answer
+      && (value >= 0 || problem.answer < 0)
+      && !wrong.includes(value)
+    ) {
+      wrong.push(value);
+    }
+  };
+
+  shuffle(problem.mistakes, random).forEach(accept);
+
+  // Near misses scale with the answer so large answers don't get obviously wrong neighbours
+  const step = Math.max(1, Math.round(Math.abs(problem.answer) / 20));
+  for (let distance = 1; wrong.length < OPTION_COUNT - 1; distance++) {
+    accept(problem.answer + (random() < 0.5 ? -1 : 1) * distance * step);
+    accept(problem.answer + distance * step);
+  }
+
+  return wrong;
+};
+
+// Generate a multiple-choice question for the given difficulty
+export const generateQuizQuestion = (
+  difficulty: QuizDifficulty = DEFAULT_QUIZ_DIFFICULTY,
+  random: Random = Math.random
+): QuizQuestion => {
+  const kind = pick(DIFFICULTY_KINDS[difficulty] || DIFFICULTY_KINDS[DEFAULT_QUIZ_DIFFICULTY], random);
+  const problem = PROBLEM_GENERATORS[kind](difficulty, random);
+
+  const format = problem.format || ((value: number) => `${value}`);
+  const values = shuffle([problem.answer, ...getWrongAnswers(problem, random)], random);
+
+  return {
+    question: problem.question,
+    options: values.map(format),
+    correctAnswer: values.indexOf(problem.answer),
+  };
+};
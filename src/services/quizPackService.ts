@@ -0,0 +1,254 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alarm } from '../types';
+import { pickTextFile } from './fileSharing';
+import { QuizQuestion, generateQuizQuestion, DEFAULT_QUIZ_DIFFICULTY } from './quizGenerator';
+
+/**
+ * Quiz packs imported from JSON files - vocabulary, trivia and the like
+ * Quiz alarms mix questions from their enabled packs with generated math
+ */
+
+const QUIZ_PACKS_KEY = 'quizPacks';
+const QUESTION_HISTORY_KEY = 'quizQuestionHistory';
+
+// A pack question isn't asked again until this many days have passed
+const QUESTION_ROTATION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chance of asking a pack question instead of generated math, while unasked pack questions remain
+const PACK_QUESTION_SHARE = 0.5;
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+const MAX_QUESTIONS = 1000;
+
+// Problems listed when a pack fails validation - the rest are summarized
+const MAX_LISTED_PROBLEMS = 5;
+
+export interface QuizPack {
+  id: string;
+  name: string;
+  description?: string;
+  questions: QuizQuestion[];
+  importedAt: number;
+}
+
+// When each pack question was last asked, keyed by "<packId>:<question index>"
+type QuestionHistory = Record<string, number>;
+
+// Load imported packs, oldest first
+export const getQuizPacks = async (): Promise<QuizPack[]> => {
+  try {
+    const packsJson = await AsyncStorage.getItem(QUIZ_PACKS_KEY);
+    return packsJson ? JSON.parse(packsJson) : [];
+  } catch (error) {
+    console.error('Error loading quiz packs:', error);
+    return [];
+  }
+};
+
+const saveQuizPacks = async (packs: QuizPack[]) => {
+  await AsyncStorage.setItem(QUIZ_PACKS_KEY, JSON.stringify(packs));
+};
+
+// Check one question against the QuizQuestion shape - returns a problem description, or null if it's fine
+const getQuestionProblem = (question: any): string | null => {
+  if (!question || typeof question !== 'object') {
+    return 'is not an object';
+  }
+  if (typeof question.question !== 'string' || !question.question.trim()) {
+    return 'has no question text';
+  }
+  if (!Array.isArray(question.options) || question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+    return `needs ${MIN_OPTIONS} to ${MAX_OPTIONS} options`;
+  }
+  if (question.options.some((option: any) => typeof option !== 'string' || !option.trim())) {
+    return 'has an empty option';
+  }
+  if (new Set(question.options.map((option: string) => option.trim())).size !== question.options.length) {
+    return 'has duplicate options';
+  }
+  if (!Number.isInteger(question.correctAnswer) || question.correctAnswer < 0 || question.correctAnswer >= question.options.length) {
+    return 'has a correctAnswer that is not an index into its options';
+  }
+  return null;
+};
+
+// Parse and validate the contents of a pack file
+// Accepts { name, description?, questions: [...] } or a bare list of questions
+// Throws with a readable message if the pack can't be imported
+export const parseQuizPack = (json: string, fallbackName: string = 'Imported pack'): Omit<QuizPack, 'id' | 'importedAt'> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  const rawQuestions = Array.isArray(raw) ? raw : raw?.questions;
+  if (!Array.isArray(rawQuestions)) {
+    throw new Error('A quiz pack needs a "questions" list.');
+  }
+  if (rawQuestions.length === 0) {
+    throw new Error('This quiz pack has no questions.');
+  }
+  if (rawQuestions.length > MAX_QUESTIONS) {
+    throw new Error(`A quiz pack can hold at most ${MAX_QUESTIONS} questions.`);
+  }
+
+  const problems: string[] = [];
+  rawQuestions.forEach((question, index) => {
+    const problem = getQuestionProblem(question);
+    if (problem) {
+      problems.push(`Question ${index + 1} ${problem}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS).join('\n');
+    const more = problems.length > MAX_LISTED_PROBLEMS ? `\n...and ${problems.length - MAX_LISTED_PROBLEMS} more` : '';
+    throw new Error(`This quiz pack has problems:\n${listed}${more}`);
+  }
+
+  const name = !Array.isArray(raw) && typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : fallbackName;
+  const description = !Array.isArray(raw) && typeof raw.description === 'string' ? raw.description.trim() : undefined;
+
+  return {
+    name,
+    description: description || undefined,
+    // Keep only the QuizQuestion fields
+    questions: rawQuestions.map((question: QuizQuestion) => ({
+      question: question.question.trim(),
+      options: question.options.map(option => option.trim()),
+      correctAnswer: question.correctAnswer,
+    })),
+  };
+};
+
+// Check a stored pack, e.g. one read from a backup - returns a problem description, or null if it's fine
+export const getQuizPackProblem = (pack: any): string | null => {
+  if (!pack || typeof pack !== 'object' || typeof pack.id !== 'string' || !pack.id) {
+    return 'has no ID';
+  }
+  if (typeof pack.name !== 'string' || typeof pack.importedAt !== 'number') {
+    return 'is missing its name or import date';
+  }
+  if (pack.description !== undefined && typeof pack.description !== 'string') {
+    return 'has a description that is not text';
+  }
+  if (!Array.isArray(pack.questions) || pack.questions.length === 0 || pack.questions.length > MAX_QUESTIONS) {
+    return `needs 1 to ${MAX_QUESTIONS} questions`;
+  }
+  const index = pack.questions.findIndex((question: any) => getQuestionProblem(question) !== null);
+  return index >= 0 ? `question ${index + 1} ${getQuestionProblem(pack.questions[index])}` : null;
+};
+
+// Let the user pick a pack file and add it - resolves to null if they cancel
+// Throws if the file isn't a valid pack
+export const importQuizPack = async (): Promise<QuizPack | null> => {
+  const content = await pickTextFile(['application/json', 'text/plain']);
+  if (content === null) return null;
+
+  const parsed = parseQuizPack(content);
+  const pack: QuizPack = {
+    id: `pack_${Date.now()}`,
+    ...parsed,
+    importedAt: Date.now(),
+  };
+
+  const packs = await getQuizPacks();
+  await saveQuizPacks([...packs, pack]);
+
+  console.log(`Imported quiz pack ${pack.name} with ${pack.questions.length} questions`);
+  return pack;
+};
+
+// Remove a pack - alarms using it carry on with their other packs and math
+export const deleteQuizPack = async (packId: string) => {
+  try {
+    const packs = await getQuizPacks();
+    await saveQuizPacks(packs.filter(pack => pack.id !== packId));
+  } catch (error) {
+    console.error('Error deleting quiz pack:', error);
+  }
+};
+
+// Add packs from a backup - packs with the same ID are replaced
+export const restoreQuizPacks = async (restored: QuizPack[]) => {
+  if (restored.length === 0) return;
+
+  const restoredIds = new Set(restored.map(pack => pack.id));
+  const packs = await getQuizPacks();
+  await saveQuizPacks([...packs.filter(pack => !restoredIds.has(pack.id)), ...restored]);
+};
+
+const getQuestionHistory = async (): Promise<QuestionHistory> => {
+  try {
+    const historyJson = await AsyncStorage.getItem(QUESTION_HISTORY_KEY);
+    return historyJson ? JSON.parse(historyJson) : {};
+  } catch (error) {
+    console.error('Error loading quiz question history:', error);
+    return {};
+  }
+};
+
+// Remember that a pack question was asked, forgetting entries older than the rotation window
+const markQuestionAsked = async (questionKey: string) => {
+  try {
+    const now = Date.now();
+    const history = await getQuestionHistory();
+    const updated: QuestionHistory = { [questionKey]: now };
+
+    Object.keys(history).forEach(key => {
+      if (key !== questionKey && now - history[key] < QUESTION_ROTATION_DAYS * DAY_MS) {
+        updated[key] = history[key];
+      }
+    });
+
+    await AsyncStorage.setItem(QUESTION_HISTORY_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error saving quiz question history:', error);
+  }
+};
+
+// Shuffle the options of a pack question so their order can't be memorized
+const shuffleOptions = (question: QuizQuestion): QuizQuestion => {
+  const order = question.options.map((_, index) => index);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  return {
+    ...question,
+    options: order.map(index => question.options[index]),
+    correctAnswer: order.indexOf(question.correctAnswer),
+  };
+};
+
+// Pick the next question for a quiz alarm - a pack question not asked in the last week, or generated math
+export const getNextQuizQuestion = async (alarm: Alarm): Promise<QuizQuestion> => {
+  const difficulty = alarm.quizDifficulty ?? DEFAULT_QUIZ_DIFFICULTY;
+  const enabledPackIds = alarm.quizPackIds ?? [];
+
+  if (enabledPackIds.length > 0 && Math.random() < PACK_QUESTION_SHARE) {
+    const [packs, history] = await Promise.all([getQuizPacks(), getQuestionHistory()]);
+    const cutoff = Date.now() - QUESTION_ROTATION_DAYS * DAY_MS;
+
+    const available = packs
+      .filter(pack => enabledPackIds.includes(pack.id))
+      .flatMap(pack => pack.questions.map((question, index) => ({
+        key: `${pack.id}:${index}`,
+        question: { ...question, source: pack.name },
+      })))
+      .filter(({ key }) => !(history[key] > cutoff));
+
+    if (available.length > 0) {
+      const { key, question } = available[Math.floor(Math.random() * available.length)];
+      await markQuestionAsked(key);
+      return shuffleOptions(question);
+    }
+  }
+
+  return generateQuizQuestion(difficulty);
+};
@@ -0,0 +1,223 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alarm } from '../types';
+import { logAlarmEvent } from './analyticsService';
+
+/**
+ * Persisted state of the alarm that is currently ringing
+ * Lets the app go straight back into the challenge if the process is killed mid-alarm
+ * Every change is also written to the analytics event log
+ */
+
+const RINGING_SESSION_KEY = 'ringingSession';
+
+// Unfinished sessions older than this are treated as timed out instead of resumed
+export const RINGING_SESSION_TIMEOUT_MINUTES = 60;
+
+export type RingingSessionState = 'ringing' | 'in-challenge' | 'snoozed' | 'dismissed' | 'timed-out';
+
+export interface RingingSession {
+  alarmId: string;
+  // Snapshot of the alarm so a resumed session uses the same mode and challenge
+  alarm: Alarm;
+  state: RingingSessionState;
+  startedAt: number;
+  updatedAt: number;
+  snoozesUsed: number;
+  challengeAttempts: number;
+  // Step of a multi-step challenge, starting at 0
+  currentStep: number;
+}
+
+// Allowed state changes - dismissed and timed-out are final
+const TRANSITIONS: Record<RingingSessionState, RingingSessionState[]> = {
+  'ringing': ['in-challenge', 'snoozed', 'dismissed', 'timed-out'],
+  'in-challenge': ['ringing', 'snoozed', 'dismissed', 'timed-out'],
+  'snoozed': ['ringing', 'dismissed', 'timed-out'],
+  'dismissed': [],
+  'timed-out': [],
+};
+
+// Sessions in these states still need the user's attention
+const UNFINISHED_STATES: RingingSessionState[] = ['ringing', 'in-challenge'];
+
+// Tail of the write queue - every write waits for the previous one to finish
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const readSession = async (): Promise<RingingSession | null> => {
+  const sessionJson = await AsyncStorage.getItem(RINGING_SESSION_KEY);
+  return sessionJson ? JSON.parse(sessionJson) : null;
+};
+
+// Queue a read-modify-write of the session so rapid updates don't overwrite each other
+const enqueueWrite = (
+  mutate: (session: RingingSession | null) => RingingSession | null
+): Promise<RingingSession | null> => {
+  const task = writeQueue.then(async () => {
+    const current = await readSession();
+    const updated = mutate(current);
+
+    if (updated && updated !== current) {
+      await AsyncStorage.setItem(RINGING_SESSION_KEY, JSON.stringify(updated));
+    }
+
+    return updated;
+  });
+
+  // Keep the queue going even if this write fails
+  writeQueue = task.catch(() => undefined);
+
+  return task.catch(error => {
+    console.error('Error saving ringing session:', error);
+    return null;
+  });
+};
+
+// Move the session for an alarm to a new state - invalid changes are ignored
+// Resolves to the session before and after the change, or null if nothing changed
+const transition = async (
+  alarmId: string,
+  nextState: RingingSessionState,
+  changes: Partial<RingingSession> = {}
+): Promise<{ previous: RingingSession; session: RingingSession } | null> => {
+  let previous: RingingSession | null = null;
+
+  const session = await enqueueWrite(current => {
+    if (!current || current.alarmId !== alarmId) return current;
+
+    // Finished sessions stay finished
+    if (TRANSITIONS[current.state].length === 0) return current;
+
+    if (current.state !== nextState && !TRANSITIONS[current.state].includes(nextState)) {
+      console.warn(`Ignoring ringing session change from ${current.state} to ${nextState}`);
+      return current;
+    }
+
+    previous = current;
+    return { ...current, ...changes, state: nextState, updatedAt: Date.now() };
+  });
+
+  return previous && session ? { previous, session } : null;
+};
+
+// Update counters on the session for an alarm without changing its state
+const updateCounters = (
+  alarmId: string,
+  changes: (session: RingingSession) => Partial<RingingSession>
+): Promise<RingingSession | null> => {
+  return enqueueWrite(session => {
+    if (!session || session.alarmId !== alarmId || !UNFINISHED_STATES.includes(session.state)) {
+      return session;
+    }
+
+    return { ...session, ...changes(session), updatedAt: Date.now() };
+  });
+};
+
+// Whether a session still needs to be resumed
+export const isSessionUnfinished = (session: RingingSession): boolean => {
+  return UNFINISHED_STATES.includes(session.state);
+};
+
+// Load the current session, finished or not
+export const getRingingSession = async (): Promise<RingingSession | null> => {
+  try {
+    await writeQueue;
+    return await readSession();
+  } catch (error) {
+    console.error('Error loading ringing session:', error);
+    return null;
+  }
+};
+
+// Start ringing an alarm - a snoozed session for the same alarm keeps its counters
+export const startRingingSession = async (alarm: Alarm): Promise<RingingSession | null> => {
+  let isNewSession = false;
+
+  const started = await enqueueWrite(session => {
+    const now = Date.now();
+
+    if (session && session.alarmId === alarm.id) {
+      // Already ringing, e.g. the notification was tapped while the ringing screen was open
+      if (isSessionUnfinished(session)) return session;
+
+      if (session.state === 'snoozed') {
+        return { ...session, alarm, state: 'ringing', updatedAt: now };
+      }
+    }
+
+    if (session && isSessionUnfinished(session) && session.alarmId !== alarm.id) {
+      console.warn(`Alarm ${alarm.label} replaced the unfinished session of alarm ${session.alarm.label}`);
+    }
+
+    isNewSession = true;
+    return {
+      alarmId: alarm.id,
+      alarm,
+      state: 'ringing',
+      startedAt: now,
+      updatedAt: now,
+      snoozesUsed: 0,
+      challengeAttempts: 0,
+      currentStep: 0,
+    };
+  });
+
+  // A re-fire after a snooze is the same alarm ringing again, not a new trigger
+  if (started && isNewSession) {
+    await logAlarmEvent('triggered', alarm);
+  }
+
+  return started;
+};
+
+// The user has opened the challenge for a ringing alarm
+export const markChallengeStarted = async (alarmId: string) => {
+  await transition(alarmId, 'in-challenge');
+};
+
+// Count a failed challenge attempt
+export const recordChallengeAttempt = async (alarmId: string) => {
+  const session = await updateCounters(alarmId, current => ({ challengeAttempts: current.challengeAttempts + 1 }));
+  if (session && session.alarmId === alarmId && isSessionUnfinished(session)) {
+    await logAlarmEvent('challenge_attempt', session.alarm);
+  }
+};
+
+// Remember how far the user got in a multi-step challenge
+export const setChallengeStep = (alarmId: string, currentStep: number) => {
+  return updateCounters(alarmId, () => ({ currentStep }));
+};
+
+// The alarm was snoozed - snoozesUsed mirrors the snooze service count
+export const markSessionSnoozed = async (alarmId: string, snoozesUsed: number) => {
+  const result = await transition(alarmId, 'snoozed', { snoozesUsed, currentStep: 0 });
+  if (result && result.previous.state !== 'snoozed') {
+    await logAlarmEvent('snoozed', result.session.alarm);
+  }
+};
+
+// End the session for an alarm once it is dismissed, deleted or turned off
+export const finishRingingSession = async (alarmId: string, state: 'dismissed' | 'timed-out' = 'dismissed') => {
+  const result = await transition(alarmId, state);
+
+  // Only an alarm that was actually ringing counts as dismissed - not a snoozed alarm being deleted
+  if (result && state === 'dismissed' && isSessionUnfinished(result.previous)) {
+    await logAlarmEvent('dismissed', result.session.alarm, {
+      timeToDismiss: result.session.updatedAt - result.session.startedAt,
+    });
+  }
+};
+
+// Get the session to resume on start-up - stale sessions are timed out instead
+export const getUnfinishedRingingSession = async (now: number = Date.now()): Promise<RingingSession | null> => {
+  const session = await getRingingSession();
+  if (!session || !isSessionUnfinished(session)) return null;
+
+  if (now - session.updatedAt > RINGING_SESSION_TIMEOUT_MINUTES * 60 * 1000) {
+    console.log(`Ringing session for alarm ${session.alarm.label} timed out`);
+    await finishRingingSession(session.alarmId, 'timed-out');
+    return null;
+  }
+
+  return session;
+};
@@ -0,0 +1,198 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Alarm } from '../types';
+
+/**
+ * Persisted snooze state for alarms
+ * Survives app restarts so a snoozed alarm still re-fires after the process is killed
+ */
+
+const SNOOZE_STATE_KEY = 'snoozeState';
+
+// Defaults used when an alarm has no snooze settings of its own
+export const DEFAULT_SNOOZE_MINUTES = 5;
+export const DEFAULT_MAX_SNOOZES = 3;
+
+export interface SnoozeState {
+  // Snapshot of the alarm so the re-fire uses the same mode and challenge
+  alarm: Alarm;
+  snoozeCount: number;
+  // Timestamp the alarm should ring again, null once it has re-fired
+  snoozedUntil: number | null;
+  // OS notification that rings the alarm at snoozedUntil even if the app isn't running
+  notificationId?: string;
+}
+
+// Get the snooze duration for an alarm in minutes
+export const getSnoozeMinutes = (alarm: Alarm): number => {
+  return alarm.snoozeMinutes && alarm.snoozeMinutes > 0 ? alarm.snoozeMinutes : DEFAULT_SNOOZE_MINUTES;
+};
+
+// Get the maximum number of snoozes allowed for an alarm
+export const getMaxSnoozes = (alarm: Alarm): number => {
+  return alarm.maxSnoozes !== undefined && alarm.maxSnoozes >= 0 ? alarm.maxSnoozes : DEFAULT_MAX_SNOOZES;
+};
+
+// Tail of the write queue - every write waits for the previous one to finish
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Load all snooze states keyed by alarm ID
+export const getSnoozeStates = async (): Promise<Record<string, SnoozeState>> => {
+  try {
+    // Wait for pending writes so callers never see stale data
+    await writeQueue;
+    const stateJson = await AsyncStorage.getItem(SNOOZE_STATE_KEY);
+    return stateJson ? JSON.parse(stateJson) : {};
+  } catch (error) {
+    console.error('Error loading snooze state:', error);
+    return {};
+  }
+};
+
+const saveSnoozeStates = async (states: Record<string, SnoozeState>) => {
+  await AsyncStorage.setItem(SNOOZE_STATE_KEY, JSON.stringify(states));
+};
+
+// Queue a read-modify-write of the snooze states so the timer and the background check can't race
+// mutate changes the states in place and returns its result
+const enqueueWrite = <T>(mutate: (states: Record<string, SnoozeState>) => T): Promise<T> => {
+  const task = writeQueue.then(async () => {
+    const stateJson = await AsyncStorage.getItem(SNOOZE_STATE_KEY);
+    const states: Record<string, SnoozeState> = stateJson ? JSON.parse(stateJson) : {};
+    const result = mutate(states);
+
+    await saveSnoozeStates(states);
+    return result;
+  });
+
+  // Keep the queue going even if this write fails
+  writeQueue = task.catch(() => undefined);
+
+  return task;
+};
+
+// Get the snooze state for a single alarm
+export const getSnoozeState = async (alarmId: string): Promise<SnoozeState | null> => {
+  const states = await getSnoozeStates();
+  return states[alarmId] || null;
+};
+
+// Number of snoozes still available for an alarm
+export const getRemainingSnoozes = async (alarm: Alarm): Promise<number> => {
+  const state = await getSnoozeState(alarm.id);
+  const used = state ? state.snoozeCount : 0;
+  return Math.max(getMaxSnoozes(alarm) - used, 0);
+};
+
+// Cancel the OS notification of a snooze that has been claimed, cleared or replaced
+const cancelSnoozeNotification = async (state: SnoozeState | null | undefined) => {
+  if (!state?.notificationId) return;
+
+  try {
+    await Notifications.cancelScheduledNotificationAsync(state.notificationId);
+  } catch (error) {
+    console.error('Error canceling snooze notification:', error);
+  }
+};
+
+// Record a snooze for an alarm - returns null when the snooze limit has been reached
+export const recordSnooze = async (alarm: Alarm): Promise<SnoozeState | null> => {
+  try {
+    let replaced: SnoozeState | undefined;
+
+    const recorded = await enqueueWrite(states => {
+      const existing = states[alarm.id];
+      const snoozeCount = existing ? existing.snoozeCount : 0;
+
+      if (snoozeCount >= getMaxSnoozes(alarm)) {
+        console.log(`Alarm ${alarm.label} has no snoozes left`);
+        return null;
+      }
+
+      const state: SnoozeState = {
+        alarm,
+        snoozeCount: snoozeCount + 1,
+        snoozedUntil: Date.now() + getSnoozeMinutes(alarm) * 60 * 1000,
+      };
+
+      replaced = existing;
+      states[alarm.id] = state;
+      return state;
+    });
+
+    await cancelSnoozeNotification(replaced);
+    return recorded;
+  } catch (error) {
+    console.error('Error recording snooze:', error);
+    return null;
+  }
+};
+
+// Remember the OS notification scheduled for a snooze
+// Resolves to false if the snooze was claimed, cleared or replaced in the meantime, so the notification isn't needed
+export const setSnoozeNotification = async (alarmId: string, snoozedUntil: number, notificationId: string): Promise<boolean> => {
+  try {
+    return await enqueueWrite(states => {
+      const state = states[alarmId];
+      if (!state || state.snoozedUntil !== snoozedUntil) return false;
+
+      states[alarmId] = { ...state, notificationId };
+      return true;
+    });
+  } catch (error) {
+    console.error('Error saving snooze notification:', error);
+    return false;
+  }
+};
+
+// Claim a due snooze so it re-fires exactly once, keeping its snooze count
+// Resolves to null if it was already claimed, cleared or snoozed again since snoozedUntil was read
+// Whoever claims it rings the alarm, so the snooze's OS notification is canceled
+export const claimSnoozeFire = async (alarmId: string, snoozedUntil: number): Promise<SnoozeState | null> => {
+  try {
+    const claimed = await enqueueWrite(states => {
+      const state = states[alarmId];
+      if (!state || state.snoozedUntil !== snoozedUntil) return null;
+
+      states[alarmId] = { ...state, snoozedUntil: null, notificationId: undefined };
+      return state;
+    });
+
+    await cancelSnoozeNotification(claimed);
+    return claimed;
+  } catch (error) {
+    console.error('Error updating snooze state:', error);
+    return null;
+  }
+};
+
+// Clear the snooze state, e.g. once an alarm is dismissed, deleted or turned off, or its next occurrence comes round
+export const clearSnoozeState = async (alarmId: string) => {
+  try {
+    const cleared = await enqueueWrite(states => {
+      const state = states[alarmId];
+      delete states[alarmId];
+      return state;
+    });
+
+    await cancelSnoozeNotification(cleared);
+  } catch (error) {
+    console.error('Error clearing snooze state:', error);
+  }
+};
+
+// Get snoozed alarms whose snooze period has run out
+export const getDueSnoozes = async (now: number = Date.now()): Promise<SnoozeState[]> => {
+  const states = await getSnoozeStates();
+  return Object.values(states).filter(
+    state => state.snoozedUntil !== null && state.snoozedUntil <= now
+  );
+};
+
+// Get snoozed alarms still waiting to re-fire
+export const getPendingSnoozes = async (now: number = Date.now()): Promise<SnoozeState[]> => {
+  const states = await getSnoozeStates();
+  return Object.values(states).filter(
+    state => state.snoozedUntil !== null && state.snoozedUntil > now
+  );
+};
@@ -0,0 +1,259 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { AVPlaybackSource } from 'expo-av';
+
+/**
+ * Alarm sounds - bundled tones plus audio files imported by the user
+ * Alarm.sound holds the ID of one of these sounds
+ */
+
+export const DEFAULT_SOUND_ID = 'default';
+
+const CUSTOM_SOUNDS_KEY = 'customSounds';
+
+// Imported files are copied here so they survive the picker's cache being cleared
+const CUSTOM_SOUNDS_DIRECTORY = `${FileSystem.documentDirectory}sounds/`;
+
+// Web keeps imported files as data URIs in storage, which has a small quota
+const MAX_WEB_SOUND_BYTES = 2 * 1024 * 1024;
+
+export interface AlarmSound {
+  id: string;
+  name: string;
+  source: AVPlaybackSource; // Used by native playback
+  webUri: string; // Used by the browser audio element
+  isCustom: boolean;
+}
+
+// Stored record of an imported sound
+export interface CustomSound {
+  id: string;
+  name: string;
+  uri: string;
+  importedAt: number;
+}
+
+// Imported sound with its audio inlined as a data URI, so it can move between devices in a backup
+export interface PortableSound {
+  id: string;
+  name: string;
+  dataUri: string;
+  importedAt: number;
+}
+
+// Larger imported sounds are left out of backups so the backup file stays a manageable size
+const MAX_PORTABLE_SOUND_BYTES = 2 * 1024 * 1024;
+
+// MIME types of common audio file extensions, used when imported sounds are inlined as data URIs
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+};
+
+export const BUNDLED_SOUNDS: AlarmSound[] = [
+  {
+    id: DEFAULT_SOUND_ID,
+    name: 'Classic',
+    source: require('../../assets/alarm-sound.mp3'),
+    webUri: '/assets/alarm.mp3',
+    isCustom: false,
+  },
+  {
+    id: 'chime',
+    name: 'Chime',
+    source: require('../../assets/sounds/chime.wav'),
+    webUri: '/assets/sounds/chime.wav',
+    isCustom: false,
+  },
+  {
+    id: 'digital',
+    name: 'Digital',
+    source: require('../../assets/sounds/digital.wav'),
+    webUri: '/assets/sounds/digital.wav',
+    isCustom: false,
+  },
+  {
+    id: 'rising',
+    name: 'Rising',
+    source: require('../../assets/sounds/rising.wav'),
+    webUri: '/assets/sounds/rising.wav',
+    isCustom: false,
+  },
+];
+
+const toAlarmSound = (custom: CustomSound): AlarmSound => ({
+  id: custom.id,
+  name: custom.name,
+  source: { uri: custom.uri },
+  webUri: custom.uri,
+  isCustom: true,
+});
+
+// Load imported sounds, oldest first
+export const getCustomSounds = async (): Promise<CustomSound[]> => {
+  try {
+    const soundsJson = await AsyncStorage.getItem(CUSTOM_SOUNDS_KEY);
+    return soundsJson ? JSON.parse(soundsJson) : [];
+  } catch (error) {
+    console.error('Error loading custom sounds:', error);
+    return [];
+  }
+};
+
+const saveCustomSounds = async (sounds: CustomSound[]) => {
+  await AsyncStorage.setItem(CUSTOM_SOUNDS_KEY, JSON.stringify(sounds));
+};
+
+// Every sound that can be picked for an alarm - bundled tones first
+export const getAllSounds = async (): Promise<AlarmSound[]> => {
+  const customSounds = await getCustomSounds();
+  return [...BUNDLED_SOUNDS, ...customSounds.map(toAlarmSound)];
+};
+
+// Look up a sound by ID - unknown or deleted sounds fall back to the default tone
+export const getSound = async (soundId: string): Promise<AlarmSound> => {
+  const bundled = BUNDLED_SOUNDS.find(sound => sound.id === soundId);
+  if (bundled) return bundled;
+
+  const customSounds = await getCustomSounds();
+  const custom = customSounds.find(sound => sound.id === soundId);
+  return custom ? toAlarmSound(custom) : BUNDLED_SOUNDS[0];
+};
+
+// Strip the extension from a picked file name for display
+const getDisplayName = (fileName: string) => {
+  const name = fileName.replace(/\.[^.]+$/, '').trim();
+  return name || 'Imported sound';
+};
+
+// Let the user pick an audio file and add it to the library - resolves to null if they cancel
+// Throws if the file can't be imported
+export const importCustomSound = async (): Promise<AlarmSound | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'audio/*',
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const id = `custom_${Date.now()}`;
+  let uri = asset.uri;
+
+  if (Platform.OS === 'web') {
+    // The picker hands back a data URI, which is stored as-is
+    if (asset.size && asset.size > MAX_WEB_SOUND_BYTES) {
+      throw new Error('This file is too large. Please pick a sound under 2 MB.');
+    }
+  } else {
+    const extension = /\.[^.]+$/.exec(asset.name)?.[0] || '';
+    uri = `${CUSTOM_SOUNDS_DIRECTORY}${id}${extension}`;
+
+    await FileSystem.makeDirectoryAsync(CUSTOM_SOUNDS_DIRECTORY, { intermediates: true });
+    await FileSystem.copyAsync({ from: asset.uri, to: uri });
+  }
+
+  const customSound: CustomSound = {
+    id,
+    name: getDisplayName(asset.name),
+    uri,
+    importedAt: Date.now(),
+  };
+
+  const customSounds = await getCustomSounds();
+  await saveCustomSounds([...customSounds, customSound]);
+
+  console.log(`Imported custom sound ${customSound.name}`);
+  return toAlarmSound(customSound);
+};
+
+// Remove an imported sound - alarms still using it fall back to the default tone
+export const deleteCustomSound = async (soundId: string) => {
+  try {
+    const customSounds = await getCustomSounds();
+    const sound = customSounds.find(custom => custom.id === soundId);
+    if (!sound) return;
+
+    if (Platform.OS !== 'web') {
+      await FileSystem.deleteAsync(sound.uri, { idempotent: true });
+    }
+
+    await saveCustomSounds(customSounds.filter(custom => custom.id !== soundId));
+  } catch (error) {
+    console.error('Error deleting custom sound:', error);
+  }
+};
+
+// Imported sounds with their audio inlined, for backups
+// Sounds that are too large or can no longer be read are left out
+export const getPortableSounds = async (): Promise<PortableSound[]> => {
+  const portable: PortableSound[] = [];
+
+  for (const sound of await getCustomSounds()) {
+    try {
+      let dataUri = sound.uri;
+
+      if (Platform.OS !== 'web') {
+        const info = await FileSystem.getInfoAsync(sound.uri);
+        if (!info.exists || info.size > MAX_PORTABLE_SOUND_BYTES) {
+          console.log(`Leaving sound ${sound.name} out of the backup`);
+          continue;
+        }
+
+        const extension = /\.[^.\/]+$/.exec(sound.uri)?.[0].toLowerCase() || '';
+        const base64 = await FileSystem.readAsStringAsync(sound.uri, { encoding: FileSystem.EncodingType.Base64 });
+        dataUri = `data:${AUDIO_MIME_TYPES[extension] || 'application/octet-stream'};base64,${base64}`;
+      }
+
+      portable.push({ id: sound.id, name: sound.name, dataUri, importedAt: sound.importedAt });
+    } catch (error) {
+      console.error(`Error reading sound ${sound.name} for backup:`, error);
+    }
+  }
+
+  return portable;
+};
+
+// Add sounds from a backup - sounds with the same ID are replaced
+// Native writes the audio back out to a file, web keeps the data URI as it is
+export const restoreCustomSounds = async (restored: PortableSound[]) => {
+  if (restored.length === 0) return;
+
+  const customSounds = await getCustomSounds();
+  const restoredSounds: CustomSound[] = [];
+
+  for (const sound of restored) {
+    let uri = sound.dataUri;
+
+    if (Platform.OS !== 'web') {
+      const [, mimeType, base64] = /^data:([^;,]*);base64,(.*)$/.exec(sound.dataUri) || [];
+      if (base64 === undefined) {
+        console.error(`Sound ${sound.name} in the backup is not readable`);
+        continue;
+      }
+
+      const extension = Object.keys(AUDIO_MIME_TYPES).find(key => AUDIO_MIME_TYPES[key] === mimeType) || '';
+      uri = `${CUSTOM_SOUNDS_DIRECTORY}${sound.id}${extension}`;
+
+      await FileSystem.makeDirectoryAsync(CUSTOM_SOUNDS_DIRECTORY, { intermediates: true });
+      await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+    }
+
+    restoredSounds.push({ id: sound.id, name: sound.name, uri, importedAt: sound.importedAt });
+  }
+
+  const restoredIds = new Set(restoredSounds.map(sound => sound.id));
+  await saveCustomSounds([...customSounds.filter(sound => !restoredIds.has(sound.id)), ...restoredSounds]);
+};
+
+// Whether a sound ID still points at a sound - false once an imported sound has been deleted
+export const isKnownSound = (soundId: string, customSounds: { id: string }[]): boolean => {
+  return BUNDLED_SOUNDS.some(sound => sound.id === soundId) || customSounds.some(sound => sound.id === soundId);
+};
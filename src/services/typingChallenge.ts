@@ -0,0 +1,60 @@
+/**
+ * Settings and scoring for the typing challenge
+ * The passage has to be typed exactly - accuracy counts every keystroke, so fixed mistakes still cost
+ */
+
+export const DEFAULT_TYPING_MIN_LENGTH = 80;
+
+// Minimum passage lengths offered when creating an alarm, in characters
+export const TYPING_LENGTH_OPTIONS = [40, 80, 150, 250];
+
+// Optional requirements - 0 turns them off
+export const TYPING_ACCURACY_OPTIONS = [0, 90, 95, 100];
+export const TYPING_WPM_OPTIONS = [0, 20, 30, 40, 60];
+
+// Standard typing speed measure - a "word" is five characters
+const CHARACTERS_PER_WORD = 5;
+
+// A run of passage characters with the same state, for highlighting
+export interface TypingSegment {
+  text: string;
+  status: 'correct' | 'wrong' | 'pending' | 'extra';
+}
+
+// Compare typed text with the passage character by character
+// Wrong characters show what was expected, anything typed past the end is extra
+export const getTypingDiff = (passage: string, typed: string): TypingSegment[] => {
+  const segments: TypingSegment[] = [];
+  const push = (char: string, status: TypingSegment['status']) => {
+    const last = segments[segments.length - 1];
+    if (last && last.status === status) {
+      last.text += char;
+    } else {
+      segments.push({ text: char, status });
+    }
+  };
+
+  for (let index = 0; index < passage.length; index++) {
+    if (index >= typed.length) {
+      push(passage[index], 'pending');
+    } else {
+      push(passage[index], typed[index] === passage[index] ? 'correct' : 'wrong');
+    }
+  }
+  for (let index = passage.length; index < typed.length; index++) {
+    push(typed[index], 'extra');
+  }
+  return segments;
+};
+
+// Words per minute for a number of characters typed over a duration
+export const getWordsPerMinute = (characters: number, durationMs: number): number => {
+  if (durationMs <= 0) return 0;
+  return Math.round((characters / CHARACTERS_PER_WORD) / (durationMs / 60000));
+};
+
+// Percentage of keystrokes that were right when they were typed
+export const getTypingAccuracy = (correctKeystrokes: number, keystrokes: number): number => {
+  if (keystrokes === 0) return 100;
+  return Math.floor((correctKeystrokes / keystrokes) * 100);
+};
@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Passages and affirmations for the typing challenge
+ * The list starts with built-in passages and can be edited freely - restoring the defaults brings them back
+ */
+
+const TYPING_PASSAGES_KEY = 'typingPassages';
+
+export const MAX_PASSAGE_LENGTH = 400;
+
+export interface TypingPassage {
+  id: string;
+  text: string;
+}
+
+const DEFAULT_TYPING_PASSAGES: TypingPassage[] = [
+  'I am awake, I am up, and today is going to be a good day.',
+  'Every morning I get out of bed on time is a small promise kept to myself.',
+  'The snooze button never made anyone feel more rested than getting up.',
+  'I choose to start this day with energy, focus and a clear head.',
+  'A slow morning starts with standing up, not with five more minutes.',
+  'The early morning has gold in its mouth, so get up and go find it.',
+  'I am grateful for this new day and everything I can do with it.',
+  'Nothing I want to do today gets done while I am still lying in bed.',
+  'Drink a glass of water, open the curtains and let the day begin.',
+  'Discipline is choosing between what you want now and what you want most.',
+].map((text, index) => ({ id: `default_${index + 1}`, text }));
+
+// Load the passage list - the built-in passages until the user changes it
+export const getTypingPassages = async (): Promise<TypingPassage[]> => {
+  try {
+    const passagesJson = await AsyncStorage.getItem(TYPING_PASSAGES_KEY);
+    return passagesJson ? JSON.parse(passagesJson) : DEFAULT_TYPING_PASSAGES;
+  } catch (error) {
+    console.error('Error loading typing passages:', error);
+    return DEFAULT_TYPING_PASSAGES;
+  }
+};
+
+const saveTypingPassages = async (passages: TypingPassage[]) => {
+  await AsyncStorage.setItem(TYPING_PASSAGES_KEY, JSON.stringify(passages));
+};
+
+// Tidy up passage text - throws with a readable message if it can't be used
+const cleanPassageText = (text: string): string => {
+  // Line breaks and runs of spaces can't be told apart while typing
+  const cleaned = text.replace(/\s+/g, ' ').trim();
+  if (!cleaned) {
+    throw new Error('A passage needs some text.');
+  }
+  if (cleaned.length > MAX_PASSAGE_LENGTH) {
+    throw new Error(`Passages can be at most ${MAX_PASSAGE_LENGTH} characters long.`);
+  }
+  return cleaned;
+};
+
+// Add a passage to the end of the list
+export const addTypingPassage = async (text: string): Promise<TypingPassage> => {
+  const passage = { id: `passage_${Date.now()}`, text: cleanPassageText(text) };
+  const passages = await getTypingPassages();
+  await saveTypingPassages([...passages, passage]);
+  return passage;
+};
+
+// Change the text of a passage
+export const updateTypingPassage = async (id: string, text: string): Promise<void> => {
+  const cleaned = cleanPassageText(text);
+  const passages = await getTypingPassages();
+  if (!passages.some(passage => passage.id === id)) {
+    throw new Error('This passage no longer exists.');
+  }
+  await saveTypingPassages(passages.map(passage => (passage.id === id ? { ...passage, text: cleaned } : passage)));
+};
+
+// Remove a passage - the last one can't go, the challenge needs something to type
+export const deleteTypingPassage = async (id: string): Promise<void> => {
+  const passages = await getTypingPassages();
+  if (passages.length <= 1) {
+    throw new Error('Keep at least one passage for the typing challenge.');
+  }
+  await saveTypingPassages(passages.filter(passage => passage.id !== id));
+};
+
+// Check a stored passage, e.g. one read from a backup
+export const isTypingPassage = (value: any): value is TypingPassage => {
+  return !!value
+    && typeof value.id === 'string' && !!value.id
+    && typeof value.text === 'string' && !!value.text.trim()
+    && value.text.length <= MAX_PASSAGE_LENGTH;
+};
+
+// Add passages from a backup - passages with the same ID are replaced
+export const restoreTypingPassages = async (restored: TypingPassage[]) => {
+  if (restored.length === 0) return;
+
+  const restoredIds = new Set(restored.map(passage => passage.id));
+  const passages = await getTypingPassages();
+  await saveTypingPassages([...passages.filter(passage => !restoredIds.has(passage.id)), ...restored]);
+};
+
+// Go back to the built-in passages
+export const restoreDefaultTypingPassages = async (): Promise<TypingPassage[]> => {
+  await AsyncStorage.removeItem(TYPING_PASSAGES_KEY);
+  return DEFAULT_TYPING_PASSAGES;
+};
+
+// Pick a random passage of at least minLength characters, never the previous one if there's a choice
+// Short passages are joined together when none is long enough on its own
+export const pickTypingPassage = async (minLength: number, previous?: string): Promise<string> => {
+  const passages = (await getTypingPassages()).map(passage => passage.text);
+  const pool = passages.length > 0 ? passages : DEFAULT_TYPING_PASSAGES.map(passage => passage.text);
+  const pick = (texts: string[]) => texts[Math.floor(Math.random() * texts.length)];
+
+  const longEnough = pool.filter(text => text.length >= minLength && text !== previous);
+  if (longEnough.length > 0) {
+    return pick(longEnough);
+  }
+
+  let text = '';
+  let remaining = pool.filter(passage => passage !== previous);
+  while (text.length < minLength) {
+    if (remaining.length === 0) {
+      remaining = [...pool];
+    }
+    const next = pick(remaining);
+    remaining = remaining.filter(passage => passage !== next);
+    text = text ? `${text} ${next}` : next;
+  }
+  return text;
+};
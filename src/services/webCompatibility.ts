@@ -64,30 +64,6 @@ export const showWebNotification = (title: string, options: any) => {
   return null;
 };
 
-// Web alarm trigger function (uses browser audio API)
-export const triggerWebAlarm = (alarm: Alarm) => {
-  if (!isWeb) return null;
-  
-  const win = getWindow();
-  if (!win || !win.Audio) return null;
-  
-  // Create audio element for alarm sound
-  const audio = new win.Audio('/assets/alarm.mp3');
-  audio.loop = true;
-  
-  // Play the alarm sound
-  const playPromise = audio.play();
-  
-  if (playPromise !== undefined) {
-    playPromise.catch((error: Error) => {
-      console.error('Web audio playback failed:', error);
-    });
-  }
-  
-  // Return audio element so it can be stopped later
-  return audio;
-};
-
 // Web alarm scheduler (uses setTimeout instead of native notifications)
 export const scheduleWebAlarm = (alarm: Alarm, callback: (alarm: Alarm) => void): number => {
   if (!isWeb) return -1;
@@ -162,3 +138,62 @@ export const cancelWebAlarm = (alarmId: string): boolean => {
   
   return false;
 };
+
+// Click a temporary link to start a browser download
+const clickDownloadLink = (win: Window, href: string, fileName: string) => {
+  const link = win.document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  win.document.body.appendChild(link);
+  link.click();
+  win.document.body.removeChild(link);
+};
+
+// Download a text file in the browser (stands in for the native share sheet)
+export const downloadWebFile = (fileName: string, content: string, mimeType: string): boolean => {
+  if (!isWeb) return false;
+  
+  const win = getWindow();
+  if (!win || !win.document) return false;
+  
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  
+  clickDownloadLink(win, url, fileName);
+  
+  URL.revokeObjectURL(url);
+  return true;
+};
+
+// Download a data URL (e.g. a rendered image) in the browser
+export const downloadWebDataUrl = (fileName: string, dataUrl: string): boolean => {
+  if (!isWeb) return false;
+  
+  const win = getWindow();
+  if (!win || !win.document) return false;
+  
+  clickDownloadLink(win, dataUrl, fileName);
+  return true;
+};
+
+// Draw on an offscreen canvas and return it as a PNG data URL - null if the browser has no canvas
+export const renderWebPng = (
+  width: number,
+  height: number,
+  draw: (context: CanvasRenderingContext2D) => void
+): string | null => {
+  if (!isWeb) return null;
+  
+  const win = getWindow();
+  if (!win || !win.document) return null;
+  
+  const canvas = win.document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  
+  draw(context);
+  return canvas.toDataURL('image/png');
+};
@@ -4,19 +4,68 @@ export enum AlarmMode {
   TINY_BUTTON = 'TINY_BUTTON',
   QUIZ = 'QUIZ',
   CAPTCHA = 'CAPTCHA',
-  QR_CODE = 'QR_CODE'
+  QR_CODE = 'QR_CODE',
+  BARCODE = 'BARCODE',
+  MEMORY = 'MEMORY',
+  TYPING = 'TYPING'
 }
 
-// Alarm interface
+// Difficulty levels of the generated quiz questions
+export type QuizDifficulty = 'easy' | 'medium' | 'hard' | 'extreme';
+
+// Difficulty levels of the captcha challenge
+export type CaptchaDifficulty = 'easy' | 'medium' | 'hard';
+
+// Difficulty presets of the find button challenge
+export type FindButtonDifficulty = 'easy' | 'medium' | 'hard' | 'insane';
+
+// How quickly the memory challenge flashes its sequence
+export type MemorySpeed = 'slow' | 'normal' | 'fast';
+
+// What the memory challenge flashes - coloured tiles or a keypad of digits
+export type MemorySymbols = 'tiles' | 'digits';
+
+// Kinds of codes that can be scanned to dismiss an alarm - QR codes or 1D product barcodes
+export type ScanCodeKind = 'qr' | 'barcode';
+
+// Whether the codes of a QR code alarm must be scanned in the order they were set up
+export type QRCodeOrder = 'ordered' | 'unordered';
+
+// Alarm interface - the single source of truth for stored alarms
+// Bump ALARM_SCHEMA_VERSION in services/alarmSchema.ts and add a migration when this changes
 export interface Alarm {
   id: string;
-  time: string;
+  time: string; // Display time, always normalized to "h:mm AM"
   days: number[];
   isActive: boolean;
-  label?: string;
+  label: string;
   mode: AlarmMode;
-  notificationId?: string;
-  qrCodeId?: string; // ID of the associated QR code for QR_CODE mode
+  challengeSteps?: AlarmMode[]; // Challenges solved one after another, starting with mode - unset for a single challenge
+  sound: string;
+  notificationIds?: string[]; // Scheduled OS notifications - one per weekday for repeating alarms
+  qrCodeIds?: string[]; // IDs of the codes to scan in QR_CODE and BARCODE modes
+  qrCodeOrder?: QRCodeOrder; // Whether the codes must be scanned in order
+  snoozeMinutes?: number; // Minutes until a snoozed alarm rings again
+  maxSnoozes?: number; // Number of snoozes allowed before the challenge must be solved
+  fadeInSeconds?: number; // Seconds the alarm sound takes to ramp from silent to full volume
+  quizDifficulty?: QuizDifficulty; // Difficulty of the questions for QUIZ mode
+  quizStreak?: number; // Correct answers in a row needed to dismiss in QUIZ mode
+  quizPackIds?: string[]; // Imported quiz packs mixed into the generated math in QUIZ mode
+  captchaDifficulty?: CaptchaDifficulty; // Length, characters and distortion of the captcha in CAPTCHA mode
+  captchaAudio?: boolean; // Offer a spoken version of the captcha in CAPTCHA mode
+  findButtonDifficulty?: FindButtonDifficulty; // Button size, decoys, movement and rounds in TINY_BUTTON mode
+  memoryLength?: number; // Sequence length that must be repeated to dismiss in MEMORY mode
+  memorySpeed?: MemorySpeed; // How quickly the sequence flashes in MEMORY mode
+  memorySymbols?: MemorySymbols; // Coloured tiles or digits in MEMORY mode
+  typingMinLength?: number; // Minimum passage length in characters in TYPING mode
+  typingMinAccuracy?: number; // Keystroke accuracy percentage needed in TYPING mode - unset or 0 for none
+  typingMinWpm?: number; // Typing speed in words per minute needed in TYPING mode - unset or 0 for none
+  
+  // Exact timing information written by the scheduler
+  exactHours?: number;
+  exactMinutes?: number;
+  scheduledTime?: number;
+  lastTriggered?: number;
 }
 
 // QR Code interface
@@ -25,15 +74,21 @@ export interface QRCode {
   data: string;
   name: string;
   timestamp: number;
+  generated?: boolean; // Printable code generated by the app rather than scanned from something
+  kind?: ScanCodeKind; // Product barcode or QR code - QR when missing
 }
 
-// Alarm statistics interface
-export interface AlarmStatistics {
-  [date: string]: {
-    alarmsTriggered: number;
-    alarmsDismissed: number;
-    averageDismissTime: number;
-    totalDismissTime: number;
-    challengeAttempts: number;
-  };
+// Kinds of entries in the alarm event log
+export type AlarmEventType = 'triggered' | 'snoozed' | 'challenge_attempt' | 'dismissed';
+
+// One entry in the alarm event log used for analytics
+export interface AlarmEvent {
+  id: string;
+  type: AlarmEventType;
+  alarmId: string;
+  label: string;
+  mode: AlarmMode;
+  timestamp: number;
+  scheduledTime?: number; // When the alarm was set to ring, for triggered events
+  timeToDismiss?: number; // Milliseconds from the first ring to dismissal, for dismissed events
 }
@@ -7,8 +7,11 @@ import {
   setupNotificationListener,
   scheduleAllActiveAlarms,
   registerBackgroundTask,
-  manualCheckForAlarms
+  manualCheckForAlarms,
+  catchUpMissedAlarms,
+  resumeSnoozedAlarms
 } from '../services/alarmService';
+import { runAlarmMigrations } from '../services/alarmSchema';
 import { 
   isAndroid, 
   setupAlarmNotificationChannel, 
@@ -23,6 +26,9 @@ export const initializeApp = async (navigation: any) => {
   try {
     console.log('Initializing alarm app...');
     
+    // Upgrade stored alarms to the current schema before anything reads them
+    await runAlarmMigrations();
+    
     // Set notification categories/actions for iOS
     if (Platform.OS === 'ios') {
       await Notifications.setNotificationCategoryAsync('alarm', [
@@ -66,9 +72,15 @@ export const initializeApp = async (navigation: any) => {
       // Register background task for checking alarms
       await registerBackgroundTask();
       
+      // Ring or log alarms missed while the app was closed before their schedule moves on
+      await catchUpMissedAlarms();
+      
       // Schedule all active alarms
       await scheduleAllActiveAlarms();
       
+      // Re-arm any alarms that were snoozed before the app was closed
+      await resumeSnoozedAlarms();
+      
       // Do an immediate check for alarms in case we missed any
       setTimeout(async () => {
         await manualCheckForAlarms();